@@ -5,8 +5,21 @@ import { parseArgs } from "./lib/args";
 import { BunExecutor } from "./lib/executor";
 import { resolveBlockSize as _resolveBlockSize, buildCloneDdCommand, buildWriteDdCommand } from "./lib/dd";
 import { buildCompressor, buildDecompressor, detectCompressionByExt, validateLevel } from "./lib/compress";
-import { detectPiDisk, detectRemovableDisk, normalizeDevice } from "./lib/devices";
-import { ensureImage, runWorker } from "./lib/docker";
+import { UnsafeDeviceError, createDeviceProvider, findDeviceHazards, type DeviceProvider, type DevicePath } from "./lib/devices";
+import { confirmOverwrite, pickDevice, type PickerIO } from "./lib/picker";
+import { ensureImage, runWorker, type WorkerResult } from "./lib/docker";
+import { detectRuntime, type ContainerRuntime } from "./lib/runtime";
+import { chooseNative } from "./lib/native";
+import { runNative } from "./worker/worker";
+import type { WorkerEvent } from "./lib/events";
+import { ProgressRenderer } from "./lib/progress";
+import { parsePartitionSpec } from "./lib/partspec";
+import { readImagePartitionTable } from "./lib/partition-table";
+import { recommendedImageSize } from "./lib/size";
+import { extractResizePlan, formatResizePlan } from "./lib/plan";
+import { Journal, journalDir } from "./lib/journal";
+import { DEFAULT_RESIZE_SETTINGS, JOB_PROTOCOL, type ResizeJob } from "./lib/job";
+import { buildInspectReport, extractInspectProbe, formatInspectReport } from "./lib/inspect";
 import pkg from "../package.json";
 
 const VERSION: string = (pkg as any).version || "0.0.0";
@@ -14,14 +27,15 @@ const VERSION: string = (pkg as any).version || "0.0.0";
 function usage() {
   console.log(`raspberry-image-tool v${VERSION}\n\n` +
 `Usage:\n  rpi-tool <command> [options]\n\n` +
-`Commands:\n  version                    Print version\n  clone <output-image>       Clone SD to image (macOS)\n  write <image>              Write image to SD (macOS)\n  resize <image>             Resize and adjust partitions (Docker)\n  clean                      Remove Docker images\n\n` +
-  `  deploy <image>             Resize image (Docker) then write to SD (macOS)\n` +
-  `  size                       Show size of removable device (macOS)\n\n` +
+`Commands:\n  version                    Print version\n  clone <output-image>       Clone SD to image (macOS, Linux)\n  write <image>              Write image to SD (macOS, Linux)\n  resize <image>             Resize and adjust partitions (Docker)\n  zerofree <image>           Zero free space in image filesystems (Docker)\n  rollback <image>           Undo an interrupted resize from its journal (Docker)\n  inspect <image>            Show partitions, filesystems, OS and boot files (Docker)\n  clean                      Remove Docker images\n\n` +
+  `  deploy <image>             Resize image (Docker) then write to SD (macOS, Linux)\n` +
+  `  size                       Show size of removable device (macOS, Linux)\n\n` +
 `Global Options:\n  -h, --help                 Show help\n  -v, --version              Show version\n\n` +
-  `Clone/Write/Size Options:\n  --compress <zstd|xz|gzip>  Compress output during clone\n  --level <n>                Compression level\n  --block-size <SIZE>        dd block size (default 4m)\n  --device </dev/diskN>      Override auto-detect; use specific disk (advanced)\n  --yes                      Skip confirmations (write only; dangerous)\n  --preview                  Print the dd command and exit (no changes)\n` +
-    `  --verify-fs                Basic read verification after write (macOS limitation)\n` +
+  `Clone/Write/Size Options:\n  --compress <zstd|xz|gzip>  Compress output during clone\n  --level <n>                Compression level\n  --block-size <SIZE>        dd block size (default 4m)\n  --device <PATH>            Override auto-detect: /dev/diskN (macOS), /dev/sdX or /dev/mmcblkN (Linux)\n  --yes                      Skip the typed confirmation (write/deploy; needs --device; dangerous)\n  --max-device-size <SIZE>   Largest device write/deploy accept (default 256GB)\n  --force-unsafe-device      Write to an internal, system, oversized or APFS disk anyway (dangerous)\n  --preview                  Print the dd command and exit (no changes)\n` +
+    `  --verify-fs                Read-only e2fsck of the resized root before it is written (deploy)\n` +
     `  --verbose                  Print duration summary after completion\n\n` +
-`Resize Options:\n  --boot-size <MB>           Target boot partition size (default 256)\n  --image-size <SIZE>        Change overall image size (e.g. 32GB, 8192MB)\n  --unsafe-resize-ext4       Run resize2fs on root when not moving (unsafe)\n  --dry-run                  Plan only, do not modify\n  --verbose                  Verbose logs (also runs final read-only fsck)\n  --verify-fs                Run final read-only e2fsck verification\n  --docker-image <name>      Docker image name (default rpi-image-resizer:latest)\n  --work-dir <path>          Working directory for temp files (default: TMPDIR or /tmp for compressed)\n`);
+`Inspect Options:\n  --json                     Print the report as JSON\n  --work-dir <path>          Where compressed images are decompressed (default TMPDIR or /tmp)\n\n` +
+`Resize Options:\n  --boot-size <MB>           Target boot partition size (default 256)\n  --image-size <SIZE>        Change overall image size (e.g. 32GB, 8192MB)\n  --shrink-to-min            Shrink root to its minimum size and truncate the image (resize only)\n  --headroom <SIZE>          Free space kept in root with --shrink-to-min (default 256MB)\n  --expand-on-boot           Grow root to fill the SD card on first boot\n  --zero-free                Zero free space in boot/root for better compression (resize only)\n  --add-partition <SPEC>     Add a partition at the end, name:fstype:size[:label] (repeatable; resize only)\n  --add-fstab                Mount added partitions at /<name> via /etc/fstab (resize only)\n  --unsafe-resize-ext4       Run resize2fs on root when not moving (unsafe)\n  --dry-run                  Print the resize plan for the real layout, do not modify\n  --json                     Print the plan as JSON (--dry-run) or worker events as NDJSON\n  --resume                   Continue an interrupted resize of this working image from its journal\n  --verbose                  Verbose logs (also runs final read-only fsck)\n  --verify-fs                Run final read-only e2fsck verification\n  --docker-image <name>      Docker image name (default rpi-image-resizer:latest)\n  --native                   Run without a container on a Linux host as root (default there unless --runtime is given)\n  --rebuild                  Rebuild the Docker image even if it matches this version (all Docker commands)\n  --runtime <name>           Container runtime: docker, podman or nerdctl (default RPI_TOOL_RUNTIME, else auto-detect)\n  --work-dir <path>          Working directory for temp files (default: TMPDIR or /tmp for compressed)\n`);
 }
 
 function escapePath(p: string) {
@@ -43,20 +57,6 @@ function bytesToGiB(n: number): string {
   return `${(n / (1024 ** 3)).toFixed(2)} GiB`;
 }
 
-async function getDiskSizeBytes(exec: BunExecutor, disk: string): Promise<number> {
-  // disk should be like /dev/diskX (NOT rdisk)
-  const cmd = `diskutil info -plist ${disk} | plutil -convert json -o - -`;
-  const res = await exec.run(["bash", "-lc", cmd]);
-  if (res.code !== 0) throw new Error(`Failed to query disk info for ${disk}`);
-  try {
-    const info = JSON.parse(res.stdout);
-    // Prefer TotalSize, fall back to MediaSize or Size
-    return Number(info.TotalSize ?? info.MediaSize ?? info.Size ?? 0);
-  } catch {
-    throw new Error(`Unable to parse disk info JSON for ${disk}`);
-  }
-}
-
 function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
@@ -74,27 +74,52 @@ function formatDuration(ms: number): string {
   }
 }
 
-// Shared utility: detect and select removable device for write/deploy operations
-async function detectAndSelectDevice(exec: BunExecutor, explicitDevice?: string): Promise<{ disk: string; rdisk: string }> {
-  let selected: string | undefined = explicitDevice;
-  if (!selected) {
-    const disks = (await exec.run(["bash", "-lc", "diskutil list | grep -E '^/dev/disk[0-9]+' | awk '{print $1}'"]))
-      .stdout.trim().split(/\s+/).filter(Boolean);
-    for (const d of disks) {
-      const info = await exec.run(["bash", "-lc", `diskutil info ${d} | grep 'Removable Media:' | grep -q Removable && echo yes || echo no`]);
-      if (info.stdout.trim() === "yes") { selected = d; break; }
-    }
+function terminalPicker(): PickerIO {
+  return {
+    interactive: !!process.stdin.isTTY && !!process.stderr.isTTY,
+    write: (s) => process.stderr.write(s),
+    ask: (question) => new Promise((resolve) => {
+      const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+      rl.once("close", () => resolve("")); // Ctrl-D
+      rl.question(question, (answer) => { resolve(answer); rl.close(); });
+    }),
+  };
+}
+
+// Shared utility: the --device disk, or one the user picks from the removable disks (Pi cards only for clone)
+async function detectAndSelectDevice(exec: BunExecutor, devices: DeviceProvider, explicitDevice?: string, piOnly = false): Promise<DevicePath> {
+  if (explicitDevice) return devices.normalize(explicitDevice);
+  const candidates = (await devices.listRemovable(exec)).filter((d) => !piOnly || d.piCard);
+  if (candidates.length === 0) throw new Error(piOnly ? "No removable Raspberry Pi SD card detected" : "No removable device detected");
+  return devices.normalize(await pickDevice(candidates, terminalPicker()));
+}
+
+// Shared utility: safety checks, then typed confirmation before overwriting a device;
+// --yes only counts with an explicit --device
+async function confirmDeviceOverwrite(exec: BunExecutor, devices: DeviceProvider, device: DevicePath, args: Record<string, any>): Promise<void> {
+  const info = await devices.describe(exec, device.disk);
+  const hazards = await findDeviceHazards(exec, devices, info, { maxSize: args["max-device-size"] });
+  if (hazards.length > 0 && !args["force-unsafe-device"]) {
+    const [first] = hazards;
+    throw new UnsafeDeviceError(first.code, `Refusing to overwrite ${first.message}; pass --force-unsafe-device if this really is the right disk`);
   }
-  if (!selected) throw new Error("No removable device detected");
-  const raw = selected.replace("/dev/disk", "/dev/rdisk");
-  return { disk: selected, rdisk: raw };
+  for (const h of hazards) console.error(`[WARN] --force-unsafe-device: ${h.message}`);
+  if (args.yes) {
+    console.error(`--yes given; overwriting ${info.disk} without confirmation`);
+    return;
+  }
+  await confirmOverwrite(info, terminalPicker());
+}
+
+function checkYesNeedsDevice(args: Record<string, any>): void {
+  if (args.yes && !args.device) throw new Error("--yes skips the confirmation only together with an explicit --device");
 }
 
 // Shared utility: preflight check that image fits on device
-async function preflightImageSize(exec: BunExecutor, imagePath: string, device: string, isCompressed: boolean): Promise<void> {
+async function preflightImageSize(exec: BunExecutor, devices: DeviceProvider, imagePath: string, device: string, isCompressed: boolean): Promise<void> {
   if (!isCompressed) {
     const imgSize = Bun.file(imagePath).size;
-    const devSize = await getDiskSizeBytes(exec, device);
+    const devSize = await devices.sizeBytes(exec, device);
     if (imgSize > devSize) {
       throw new Error(
         `Image (${bytesToGiB(imgSize)}) is larger than device ${device} (${bytesToGiB(devSize)}). ` +
@@ -109,15 +134,15 @@ async function preflightImageSize(exec: BunExecutor, imagePath: string, device:
 // Shared utility: write image to device with optional decompression
 async function writeImageToDevice(
   exec: BunExecutor,
+  devices: DeviceProvider,
   imagePath: string,
-  device: { disk: string; rdisk: string },
+  device: DevicePath,
   blockSize: string,
-  decompressor?: string[],
-  verifyFs?: boolean
+  decompressor?: string[]
 ): Promise<void> {
   // Proactively request sudo to avoid pause when dd starts
   await exec.run(["sudo", "-v"], { allowNonZeroExit: true });
-  await exec.run(["diskutil", "unmountDisk", device.disk], { allowNonZeroExit: true });
+  await devices.unmount(exec, device.disk);
   
   console.log(`About to WRITE image to device: ${device.disk} (raw ${device.rdisk})`);
   
@@ -132,117 +157,9 @@ async function writeImageToDevice(
   }
   
   await exec.run(["sync"], { allowNonZeroExit: true });
-  await exec.run(["diskutil", "mountDisk", device.disk], { allowNonZeroExit: true });
-  
-  if (verifyFs) {
-      //await verifyFilesystemsOnDeviceViaDocker(exec, device);
-  }
+  await devices.remount(exec, device.disk);
 }
 
-  // Shared utility: verify filesystems on device after write (Docker-based)
-  async function verifyFilesystemsOnDeviceViaDocker(
-    exec: BunExecutor,
-    device: { disk: string; rdisk: string }
-  ): Promise<void> {
-    console.log("\n[VERIFY] Running filesystem checks on written device via Docker container...");
-  
-    // Unmount device on macOS before Docker access
-    await exec.run(["diskutil", "unmountDisk", device.disk], { allowNonZeroExit: true });
-  
-    try {
-      // Create verification script that will run inside Docker container
-      const verifyScript = `#!/bin/bash
-  set -e
-  DEVICE="$1"
-
-  echo "[VERIFY] Attaching device in container: \${DEVICE}"
-
-  # Check FAT filesystem on partition 1 (boot)
-  echo "[VERIFY] Checking boot partition (FAT)..."
-  if fsck.vfat -n "\${DEVICE}1" 2>&1; then
-    BOOT_CODE=$?
-    if [ $BOOT_CODE -eq 0 ]; then
-      echo "[VERIFY] ✓ Boot partition (FAT): clean"
-    elif [ $BOOT_CODE -eq 1 ]; then
-      echo "[VERIFY] ✓ Boot partition (FAT): clean (minor issues corrected in check)"
-    else
-      echo "[VERIFY] ✗ Boot partition (FAT): errors detected (code $BOOT_CODE)"
-      exit 1
-    fi
-  else
-    BOOT_CODE=$?
-    echo "[VERIFY] ✗ Boot partition (FAT): check failed with code $BOOT_CODE"
-    exit 1
-  fi
-
-  # Check ext4 filesystem on partition 2 (root)
-  echo "[VERIFY] Checking root partition (ext4)..."
-  if e2fsck -n -f "\${DEVICE}2" 2>&1; then
-    EXT4_CODE=$?
-    if [ $EXT4_CODE -eq 0 ]; then
-      echo "[VERIFY] ✓ Root partition (ext4): clean"
-    elif [ $EXT4_CODE -eq 1 ]; then
-      echo "[VERIFY] ✓ Root partition (ext4): clean (issues corrected in check)"
-    elif [ $EXT4_CODE -eq 4 ]; then
-      echo "[VERIFY] ⚠ Root partition (ext4): uncorrected errors (read-only check)"
-    elif [ $EXT4_CODE -ge 8 ]; then
-      echo "[VERIFY] ✗ Root partition (ext4): fatal errors (code $EXT4_CODE)"
-      exit 1
-    else
-      echo "[VERIFY] ⚠ Root partition (ext4): check returned code $EXT4_CODE"
-    fi
-  else
-    EXT4_CODE=$?
-    if [ $EXT4_CODE -ge 8 ]; then
-      echo "[VERIFY] ✗ Root partition (ext4): check failed with code $EXT4_CODE"
-      exit 1
-    elif [ $EXT4_CODE -eq 4 ]; then
-      echo "[VERIFY] ⚠ Root partition (ext4): uncorrected errors (read-only check)"
-    else
-      echo "[VERIFY] ⚠ Root partition (ext4): check returned code $EXT4_CODE"
-    fi
-  fi
-
-  echo "[VERIFY] Filesystem verification completed"
-  `;
-
-      // Write script to temp file
-      const scriptPath = `/tmp/verify-fs-${Date.now()}.sh`;
-      await Bun.write(scriptPath, verifyScript);
-      await exec.run(["chmod", "+x", scriptPath]);
-
-      // Run Docker container with privileged mode to access device
-      const dockerImage = "ghcr.io/andihofmeister/raspberry-pi-image-resizer:latest";
-      const dockerArgs = [
-        "run",
-        "--rm",
-        "--privileged",
-        "-v", `${scriptPath}:/verify.sh`,
-        dockerImage,
-        "/verify.sh",
-        device.disk
-      ];
-
-      console.log(`[VERIFY] Running Docker verification with device ${device.disk}...`);
-      const result = await exec.run(["docker", ...dockerArgs], { allowNonZeroExit: true });
-    
-      // Clean up script
-      await exec.run(["rm", scriptPath], { allowNonZeroExit: true });
-
-      if (result.code !== 0) {
-        console.error("[VERIFY] Filesystem verification failed");
-        console.error(result.stdout);
-        console.error(result.stderr);
-        throw new Error(`Filesystem verification failed with exit code ${result.code}`);
-      }
-
-      console.log("[VERIFY] All filesystem checks passed\n");
-    } finally {
-      // Always remount after checks
-      await exec.run(["diskutil", "mountDisk", device.disk], { allowNonZeroExit: true });
-    }
-  }
-
 // Shared utility: prepare working image (decompress or copy)
 async function prepareWorkingImage(
   image: string,
@@ -253,31 +170,35 @@ async function prepareWorkingImage(
   
   if (algo) {
     console.error(`Detected ${algo} compressed image`);
+    await decompressTo(image, algo, workingPath);
     if (isDryRun) {
-      console.error("Dry-run: skipping decompression");
-      return image;
+      // The dry-run plan needs the real partition layout; this copy is removed afterwards
+      console.error(`Dry-run: decompressed to temporary ${workingPath}`);
     } else {
-      const decomp = buildDecompressor(algo);
-      decomp.push(image);
-      const proc = spawn({
-        cmd: decomp,
-        stdout: Bun.file(workingPath),
-        stderr: "pipe",
-      });
-      const exitCode = await proc.exited;
-      const stderr = await new Response(proc.stderr).text();
-      
-      if (exitCode !== 0) {
-        throw new Error(`Decompression failed with code ${exitCode}\n${stderr}`);
-      }
       console.log(`Working copy created: ${workingPath}`);
-      return workingPath;
     }
+    return workingPath;
   }
   
   return image;
 }
 
+async function decompressTo(image: string, algo: NonNullable<ReturnType<typeof detectCompressionByExt>>, outPath: string): Promise<void> {
+  const decomp = buildDecompressor(algo);
+  decomp.push(image);
+  const proc = spawn({
+    cmd: decomp,
+    stdout: Bun.file(outPath),
+    stderr: "pipe",
+  });
+  const exitCode = await proc.exited;
+  const stderr = await new Response(proc.stderr).text();
+
+  if (exitCode !== 0) {
+    throw new Error(`Decompression failed with code ${exitCode}\n${stderr}`);
+  }
+}
+
 // Shared utility: create backup of source image
 async function createBackup(
   exec: BunExecutor,
@@ -287,12 +208,39 @@ async function createBackup(
 ): Promise<void> {
   if (!isDryRun) {
     await exec.run(["cp", sourcePath, targetPath]);
-    console.log(`Backup created: ${targetPath}`);
+    // stderr, so resize --json keeps stdout to worker events
+    console.error(`Backup created: ${targetPath}`);
   } else {
     console.log("Dry-run: not creating backup or working copy, operating read-only");
   }
 }
 
+// Shared utility: step lines and progress bars for the worker's events on stdout
+function renderProgress(verbose: boolean): (e: WorkerEvent) => void {
+  const renderer = new ProgressRenderer(process.stdout, verbose);
+  return (e) => renderer.handle(e);
+}
+
+// Shared utility: the coded errors of a worker that was not rendered live
+function reportWorkerErrors(result: WorkerResult): void {
+  const errors = result.events.filter((e) => e.type === "error");
+  if (errors.length === 0) console.error(result.stderr || result.stdout);
+  for (const e of errors) console.error(`[ERROR] ${e.code}: ${e.message}`);
+}
+
+// Shared utility: --runtime, else RPI_TOOL_RUNTIME, else the first runtime that answers
+function workerRuntime(exec: BunExecutor, args: Record<string, any>): Promise<ContainerRuntime> {
+  return detectRuntime(exec, (args["runtime"] as string | undefined) ?? process.env.RPI_TOOL_RUNTIME);
+}
+
+// Shared utility: after a failed resize, point at the journal the worker kept
+function reportInterruptedResize(imagePath: string): void {
+  if (!Journal.exists(imagePath)) return;
+  console.error(`Resize journal kept at ${journalDir(imagePath)}`);
+  console.error(`  Continue: rpi-tool resize --resume ${escapePath(imagePath)}`);
+  console.error(`  Undo:     rpi-tool rollback ${escapePath(imagePath)}`);
+}
+
 async function main() {
   const argv = process.argv.slice(2);
   if (argv.includes("-h") || argv.includes("--help")) return usage();
@@ -316,12 +264,10 @@ async function main() {
     ]);
     const output = positional[0];
     if (!output) throw new Error("Missing <output-image>");
-    const bs = resolveBlockSize(args["block-size"] as string | undefined);
-
-    const selected = args.device ? normalizeDevice(String(args.device)).disk : await detectPiDisk(exec);
-    if (!selected) throw new Error("No removable Raspberry Pi SD card detected");
+    const devices = createDeviceProvider();
+    const bs = devices.ddBlockSize(resolveBlockSize(args["block-size"] as string | undefined));
 
-    const raw = args.device ? normalizeDevice(String(args.device)).rdisk : selected.replace("/dev/disk", "/dev/rdisk");
+    const { disk: selected, rdisk: raw } = await detectAndSelectDevice(exec, devices, args.device as string | undefined, true);
 
     if (args.device) {
       console.warn(`Using explicit device override: ${selected} (raw ${raw}). Operation is read-only (clone).`);
@@ -345,11 +291,11 @@ async function main() {
     }
 
     // Unmount volumes (best-effort) then run dd
-    await exec.run(["diskutil", "unmountDisk", selected], { allowNonZeroExit: true });
+    await devices.unmount(exec, selected);
     await exec.run(["bash", "-lc", ddCmd], { onStderrChunk: (s) => process.stderr.write(s) });
 
     await exec.run(["sync"], { allowNonZeroExit: true });
-    await exec.run(["diskutil", "mountDisk", selected], { allowNonZeroExit: true });
+    await devices.remount(exec, selected);
     console.log("✓ Clone completed");
     if (argv.includes("--verbose")) {
       const duration = Date.now() - startTime;
@@ -362,17 +308,13 @@ async function main() {
     const { args } = parseArgs(rest, [
       { name: "device", type: "string" }
     ]);
-    const selected = args.device ? normalizeDevice(String(args.device)).disk : await detectRemovableDisk(exec);
-    if (!selected) throw new Error("No removable device detected");
-    const sizeBytes = await getDiskSizeBytes(exec, selected);
-    const gib = sizeBytes / (1024 ** 3);
+    const devices = createDeviceProvider();
+    const { disk: selected } = await detectAndSelectDevice(exec, devices, args.device as string | undefined);
+    const sizeBytes = await devices.sizeBytes(exec, selected);
     const gb = sizeBytes / 1_000_000_000;
-    // Recommend a safe rounded-down decimal GB value with 2% headroom, rounded down to 0.1GB
-    let safeGb = Math.floor(gb * 0.98 * 10) / 10;
-    if (safeGb <= 0) safeGb = Math.max(0, Math.floor(gb * 10) / 10 - 0.1);
     console.log(`${selected}: ${bytesToGiB(sizeBytes)} (${sizeBytes} bytes)`);
     console.log(`Approx capacity: ${gb.toFixed(2)} GB`);
-    console.log(`Recommended --image-size: ${safeGb.toFixed(1)}GB`);
+    console.log(`Recommended --image-size: ${recommendedImageSize(sizeBytes)}`);
     if (argv.includes("--verbose")) {
       const duration = Date.now() - startTime;
       console.log(`[DURATION] ${formatDuration(duration)}`);
@@ -384,19 +326,28 @@ async function main() {
     const { args, positional } = parseArgs(rest, [
       { name: "device", type: "string" },
       { name: "block-size", type: "string" },
-      { name: "verify-fs", type: "boolean" }
+      { name: "verify-fs", type: "boolean" },
+      { name: "yes", type: "boolean" },
+      { name: "force-unsafe-device", type: "boolean" },
+      { name: "max-device-size", type: "string" }
     ]);
     const image = positional[0];
     if (!image) throw new Error("Missing <image>");
+    // Filesystems are only checked while resizing, before anything reaches the card
+    if (args["verify-fs"]) {
+      throw new Error("write does not check filesystems; use deploy --verify-fs to check the resized root before it is written");
+    }
+    checkYesNeedsDevice(args);
 
-    const device = await detectAndSelectDevice(exec, args.device as string | undefined);
-    const bs = resolveBlockSize(args["block-size"] as string | undefined);
+    const devices = createDeviceProvider();
+    const device = await detectAndSelectDevice(exec, devices, args.device as string | undefined);
+    const bs = devices.ddBlockSize(resolveBlockSize(args["block-size"] as string | undefined));
     const algo = detectCompressionByExt(image);
     const decomp = algo ? buildDecompressor(algo) : undefined;
-    const verifyFs = args["verify-fs"] || argv.includes("--verbose");
 
-    await preflightImageSize(exec, image, device.disk, !!algo);
-    await writeImageToDevice(exec, image, device, bs, decomp, verifyFs);
+    await preflightImageSize(exec, devices, image, device.disk, !!algo);
+    await confirmDeviceOverwrite(exec, devices, device, args);
+    await writeImageToDevice(exec, devices, image, device, bs, decomp);
     
     console.log("✓ Write completed");
     if (argv.includes("--verbose")) {
@@ -412,8 +363,11 @@ async function main() {
       { name: "boot-size", type: "number", default: 256 },
       { name: "image-size", type: "string" },
       { name: "unsafe-resize-ext4", type: "boolean" },
+      { name: "expand-on-boot", type: "boolean" },
       { name: "verify-fs", type: "boolean" },
       { name: "docker-image", type: "string" },
+      { name: "rebuild", type: "boolean" },
+      { name: "runtime", type: "string" },
       { name: "work-dir", type: "string" },
       { name: "dry-run", type: "boolean" },
       { name: "verbose", type: "boolean" },
@@ -421,14 +375,21 @@ async function main() {
       { name: "device", type: "string" },
       { name: "block-size", type: "string" },
       { name: "preview", type: "boolean" },
+      { name: "yes", type: "boolean" },
+      { name: "force-unsafe-device", type: "boolean" },
+      { name: "max-device-size", type: "string" },
       // Deploy-specific
       { name: "keep-working", type: "boolean" }
     ]);
     const image = positional[0];
     if (!image) throw new Error("Missing <image>");
+    checkYesNeedsDevice(args);
 
-    const device = await detectAndSelectDevice(exec, args.device as string | undefined);
-    const bs = resolveBlockSize(args["block-size"] as string | undefined);
+    const devices = createDeviceProvider();
+    const device = await detectAndSelectDevice(exec, devices, args.device as string | undefined);
+    // Ask before the resize so nobody has to wait for it to answer; dry runs and previews write nothing
+    if (!args["dry-run"] && !args["preview"]) await confirmDeviceOverwrite(exec, devices, device, args);
+    const bs = devices.ddBlockSize(resolveBlockSize(args["block-size"] as string | undefined));
 
     // Prepare paths and directories
     const algo = detectCompressionByExt(image);
@@ -438,7 +399,8 @@ async function main() {
     const lastDot = imageBase.lastIndexOf(".");
     const bareOriginal = lastDot > 0 ? imageBase.slice(0, lastDot) : imageBase;
     const extOriginal = lastDot > 0 ? imageBase.slice(lastDot) : "";
-    const workDir = String(args["work-dir"] ?? (algo && !args["dry-run"] ? defaultTmp : srcDir));
+    // An uncompressed dry-run plans against the original where it lies
+    const workDir = args["dry-run"] && !algo ? srcDir : String(args["work-dir"] ?? (algo ? defaultTmp : srcDir));
     const ts = new Date().toISOString().replace(/[-:TZ.]/g, "").slice(0,12);
     const workingName = `${bareOriginal}_${ts}.img`;
     const workingPath = `${workDir}/${workingName}`;
@@ -462,14 +424,12 @@ async function main() {
       }
     } else {
       console.log("Dry-run: not creating backup or working copy, operating read-only");
-      targetImage = imageBase;
+      if (!algo) targetImage = imageBase;
     }
 
     // Compute default image size from target device if not provided
-    const devSizeBytes = await getDiskSizeBytes(exec, device.disk);
-    const safeBytes = Math.floor(devSizeBytes * 0.98); // 2% headroom
-    const safeMB = Math.floor(safeBytes / 1024 / 1024);
-    const chosenImageSize = (args["image-size"] as string | undefined) ?? `${safeMB}MB`;
+    const devSizeBytes = await devices.sizeBytes(exec, device.disk);
+    const chosenImageSize = (args["image-size"] as string | undefined) ?? recommendedImageSize(devSizeBytes);
     if (args["verbose"]) {
       console.log(`[DEPLOY] Target device: ${device.disk} (raw ${device.rdisk})`);
       const devGiB = bytesToGiB(devSizeBytes);
@@ -478,26 +438,38 @@ async function main() {
     }
 
     const dockerImage = (args["docker-image"] as string) || "rpi-image-resizer:latest";
-    const env = {
-      IMAGE_FILE: targetImage,
-      BOOT_SIZE_MB: String(args["boot-size"] ?? 256),
-      IMAGE_SIZE: String(chosenImageSize),
-      UNSAFE_RESIZE_EXT4: args["unsafe-resize-ext4"] ? "1" : "0",
-      DRY_RUN: args["dry-run"] ? "1" : "0",
-      VERBOSE: args["verbose"] ? "1" : "0",
-      VERIFY_FS: (args["verify-fs"] || args["verbose"]) ? "1" : "0",
-    } as Record<string, string>;
-
-    await ensureImage(exec, dockerImage);
-    const result = await runWorker(exec, { image: dockerImage, workdir: workDir, env, stream: true });
+    const job: ResizeJob = {
+      protocol: JOB_PROTOCOL,
+      mode: "resize",
+      image: targetImage,
+      dryRun: !!args["dry-run"],
+      verbose: !!args["verbose"],
+      resize: {
+        ...DEFAULT_RESIZE_SETTINGS,
+        bootSizeMB: Number(args["boot-size"] ?? 256),
+        imageSize: String(chosenImageSize),
+        unsafeResizeExt4: !!args["unsafe-resize-ext4"],
+        expandOnBoot: !!args["expand-on-boot"],
+        verifyFs: !!(args["verify-fs"] || args["verbose"]),
+      },
+    };
+
+    const runtime = await workerRuntime(exec, args);
+    await ensureImage(exec, dockerImage, { runtime, rebuild: !!args["rebuild"] });
+    const result = await runWorker(exec, { runtime, image: dockerImage, workdir: workDir, job, onEvent: renderProgress(!!args["verbose"]) });
     process.exitCode = result.code;
-    if (result.code !== 0) throw new Error(`Worker failed: ${result.code}`);
+    if (result.code !== 0) {
+      if (!args["dry-run"]) reportInterruptedResize(workingPath);
+      throw new Error(`Worker failed: ${result.code}`);
+    }
     if (args["verbose"]) {
       const d = Date.now() - resizeStart;
       console.log(`[DURATION][RESIZE] ${formatDuration(d)}`);
     }
 
     if (args["dry-run"]) {
+      console.log(formatResizePlan(extractResizePlan(result.events), targetImage));
+      if (algo) await exec.run(["rm", "-f", workingPath], { allowNonZeroExit: true });
       console.log("✓ Deploy (resize phase) completed - dry run, skipping write");
       return;
     }
@@ -508,7 +480,7 @@ async function main() {
     if (args["verbose"]) {
       console.log(`[DEPLOY] Writing image to ${device.rdisk} with bs=${bs}`);
     }
-    await preflightImageSize(exec, finalPath, device.disk, false);
+    await preflightImageSize(exec, devices, finalPath, device.disk, false);
 
     if (args["preview"]) {
       const previewCmd = `sudo dd if=${escapePath(finalPath)} of=${device.rdisk} bs=${bs} conv=fsync status=progress`;
@@ -516,8 +488,7 @@ async function main() {
       return;
     }
 
-    const verifyFs = args["verify-fs"] || args["verbose"];
-    await writeImageToDevice(exec, finalPath, device, bs, undefined, verifyFs);
+    await writeImageToDevice(exec, devices, finalPath, device, bs);
     console.log("✓ Deploy completed (resize + write)");
     
     // Cleanup: delete working image unless --keep-working
@@ -538,27 +509,156 @@ async function main() {
   }
 
   if (command === "clean") {
-    console.log("Cleaning Docker images and build artifacts...\n");
+    const { args } = parseArgs(rest, [
+      { name: "runtime", type: "string" },
+      { name: "verbose", type: "boolean" }
+    ]);
+    const runtime = await workerRuntime(exec, args);
+    console.log(`Cleaning ${runtime.name} images and build artifacts...\n`);
     
-    // Remove Docker images
+    // Remove worker images
     const images = ["rpi-image-resizer:latest"];
     for (const img of images) {
-      const check = await exec.run(["docker", "image", "inspect", img], { allowNonZeroExit: true });
+      const check = await exec.run(runtime.command("image", "inspect", img), { allowNonZeroExit: true });
       if (check.code === 0) {
-        console.log(`Removing Docker image: ${img}...`);
-        const result = await exec.run(["docker", "rmi", img]);
+        console.log(`Removing ${runtime.name} image: ${img}...`);
+        const result = await exec.run(runtime.command("rmi", img));
         if (result.code === 0) {
           console.log(`✓ Removed ${img}`);
         } else {
           console.error(`✗ Failed to remove ${img}`);
         }
       } else {
-        console.log(`Docker image ${img} not found`);
+        console.log(`${runtime.name} image ${img} not found`);
       }
     }
 
     console.log("\n✓ Clean completed");
-    if (argv.includes("--verbose")) {
+    if (args["verbose"]) {
+      const duration = Date.now() - startTime;
+      console.log(`[DURATION] ${formatDuration(duration)}`);
+    }
+    return;
+  }
+
+  if (command === "inspect") {
+    const { args, positional } = parseArgs(rest, [
+      { name: "json", type: "boolean" },
+      { name: "docker-image", type: "string" },
+      { name: "rebuild", type: "boolean" },
+      { name: "runtime", type: "string" },
+      { name: "work-dir", type: "string" },
+      { name: "verbose", type: "boolean" }
+    ]);
+    const image = positional[0];
+    if (!image) throw new Error("Missing <image>");
+    if (!(await Bun.file(image).exists())) throw new Error(`Image not found: ${image}`);
+    const dockerImage = (args["docker-image"] as string) || "rpi-image-resizer:latest";
+    // Compressed inputs are decompressed to a temporary .img that is removed afterwards
+    const algo = detectCompressionByExt(image);
+    let imagePath = image;
+    if (algo) {
+      const workDir = String(args["work-dir"] ?? (process.env.TMPDIR || "/tmp"));
+      imagePath = `${workDir}/rpi-tool-inspect-${Date.now()}.img`;
+      console.error(`Decompressing ${algo} image to ${imagePath}...`);
+      await decompressTo(image, algo, imagePath);
+    }
+    try {
+      // The partition table is read on the host; filesystems are probed read-only in Docker
+      const { table, warnings } = readImagePartitionTable(imagePath);
+      const runtime = await workerRuntime(exec, args);
+      await ensureImage(exec, dockerImage, { runtime, rebuild: !!args["rebuild"] });
+      const result = await runWorker(exec, {
+        runtime,
+        image: dockerImage,
+        workdir: dirname(imagePath),
+        job: { protocol: JOB_PROTOCOL, mode: "inspect", image: basename(imagePath), dryRun: false, verbose: !!args["verbose"] },
+        onEvent: args["verbose"] && !args["json"] ? renderProgress(true) : undefined,
+      });
+      if (result.code !== 0) {
+        if (!args["verbose"] || args["json"]) reportWorkerErrors(result);
+        throw new Error(`Worker failed: ${result.code}`);
+      }
+      const report = buildInspectReport(basename(image), Bun.file(imagePath).size, table, extractInspectProbe(result.events), warnings);
+      console.log(args["json"] ? JSON.stringify(report, null, 2) : formatInspectReport(report));
+    } finally {
+      if (algo) await exec.run(["rm", "-f", imagePath], { allowNonZeroExit: true });
+    }
+    return;
+  }
+
+  if (command === "zerofree") {
+    const { args, positional } = parseArgs(rest, [
+      { name: "docker-image", type: "string" },
+      { name: "rebuild", type: "boolean" },
+      { name: "runtime", type: "string" },
+      { name: "dry-run", type: "boolean" },
+      { name: "verbose", type: "boolean" }
+    ]);
+    const image = positional[0];
+    if (!image) throw new Error("Missing <image>");
+    if (detectCompressionByExt(image)) {
+      throw new Error("zerofree works on uncompressed .img files; decompress first or use 'resize --zero-free'");
+    }
+    const dockerImage = (args["docker-image"] as string) || "rpi-image-resizer:latest";
+    // Zeroing free space does not change file contents, so the image is processed in place
+    const runtime = await workerRuntime(exec, args);
+    await ensureImage(exec, dockerImage, { runtime, rebuild: !!args["rebuild"] });
+    const result = await runWorker(exec, {
+      runtime,
+      image: dockerImage,
+      workdir: dirname(image),
+      job: {
+        protocol: JOB_PROTOCOL,
+        mode: "zerofree",
+        image: basename(image),
+        dryRun: !!args["dry-run"],
+        verbose: !!args["verbose"],
+      },
+      onEvent: renderProgress(!!args["verbose"]),
+    });
+    process.exitCode = result.code;
+    if (result.code !== 0) throw new Error(`Worker failed: ${result.code}`);
+    console.log("✓ Zerofree completed");
+    if (args["verbose"]) {
+      const duration = Date.now() - startTime;
+      console.log(`[DURATION] ${formatDuration(duration)}`);
+    }
+    return;
+  }
+
+  if (command === "rollback") {
+    const { args, positional } = parseArgs(rest, [
+      { name: "docker-image", type: "string" },
+      { name: "rebuild", type: "boolean" },
+      { name: "runtime", type: "string" },
+      { name: "dry-run", type: "boolean" },
+      { name: "verbose", type: "boolean" }
+    ]);
+    const image = positional[0];
+    if (!image) throw new Error("Missing <image>");
+    if (!Journal.exists(image)) throw new Error(`No resize journal found at ${journalDir(image)}`);
+    const dockerImage = (args["docker-image"] as string) || "rpi-image-resizer:latest";
+    // The journal sits next to the working image, so both are in the mounted directory
+    const runtime = await workerRuntime(exec, args);
+    await ensureImage(exec, dockerImage, { runtime, rebuild: !!args["rebuild"] });
+    const result = await runWorker(exec, {
+      runtime,
+      image: dockerImage,
+      workdir: dirname(image),
+      job: {
+        protocol: JOB_PROTOCOL,
+        mode: "rollback",
+        image: basename(image),
+        dryRun: !!args["dry-run"],
+        verbose: !!args["verbose"],
+      },
+      onEvent: renderProgress(!!args["verbose"]),
+    });
+    process.exitCode = result.code;
+    if (result.code !== 0) throw new Error(`Worker failed: ${result.code}`);
+    console.log(args["dry-run"] ? "✓ Rollback plan shown; image not modified" : "✓ Rollback completed");
+    if (args["verbose"]) {
       const duration = Date.now() - startTime;
       console.log(`[DURATION] ${formatDuration(duration)}`);
     }
@@ -570,14 +670,44 @@ async function main() {
       { name: "boot-size", type: "number", default: 256 },
       { name: "image-size", type: "string" },
       { name: "unsafe-resize-ext4", type: "boolean" },
+      { name: "expand-on-boot", type: "boolean" },
       { name: "dry-run", type: "boolean" },
       { name: "verbose", type: "boolean" },
       { name: "verify-fs", type: "boolean" },
       { name: "docker-image", type: "string" },
-      { name: "work-dir", type: "string" }
+      { name: "rebuild", type: "boolean" },
+      { name: "runtime", type: "string" },
+      { name: "work-dir", type: "string" },
+      { name: "shrink-to-min", type: "boolean" },
+      { name: "zero-free", type: "boolean" },
+      { name: "headroom", type: "string" },
+      { name: "add-partition", type: "string", multiple: true },
+      { name: "add-fstab", type: "boolean" },
+      { name: "json", type: "boolean" },
+      { name: "resume", type: "boolean" },
+      { name: "native", type: "boolean" }
     ]);
     const image = positional[0];
     if (!image) throw new Error("Missing <image>");
+    const resume = !!args["resume"];
+    if (resume && args["dry-run"]) throw new Error("--resume cannot be combined with --dry-run");
+    if (args["native"] && args["runtime"]) throw new Error("--native cannot be combined with --runtime");
+    if (resume && !Journal.exists(image)) {
+      throw new Error(`No resize journal found at ${journalDir(image)}; --resume takes the working image of an interrupted resize`);
+    }
+    if (args["shrink-to-min"] && args["image-size"]) {
+      throw new Error("--shrink-to-min cannot be combined with --image-size");
+    }
+    if (args["headroom"] && !args["shrink-to-min"]) {
+      throw new Error("--headroom requires --shrink-to-min");
+    }
+    const addPartitions = (args["add-partition"] as string[] | undefined) ?? [];
+    // Validate early so a typo fails before the working copy is made
+    const names = addPartitions.map((spec) => parsePartitionSpec(spec).name);
+    if (new Set(names).size !== names.length) throw new Error("--add-partition names must be unique");
+    if (args["add-fstab"] && addPartitions.length === 0) {
+      throw new Error("--add-fstab requires --add-partition");
+    }
 
     const dockerImage = (args["docker-image"] as string) || "rpi-image-resizer:latest";
 
@@ -591,20 +721,47 @@ async function main() {
 
     const algo = detectCompressionByExt(image);
     const defaultTmp = process.env.TMPDIR || "/tmp";
-    const workDir = String(args["work-dir"] ?? (algo && !args["dry-run"] ? defaultTmp : srcDir));
+    // A resumed resize continues on the working image it was given, and an
+    // uncompressed dry-run plans against the original where it lies
+    const workDir = resume || (args["dry-run"] && !algo) ? srcDir : String(args["work-dir"] ?? (algo ? defaultTmp : srcDir));
 
     // Working copy name (always .img) and full path
-    const workingName = `${bareOriginal}_${ts}.img`;
+    const workingName = resume ? imageBase : `${bareOriginal}_${ts}.img`;
     const workingPath = `${workDir}/${workingName}`;
 
+    // A dry-run plans against the original, read-only, unless it has to be decompressed first
+    const targetImage = args["dry-run"] && !algo ? imageBase : workingName;
+    const job: ResizeJob = {
+      protocol: JOB_PROTOCOL,
+      mode: "resize",
+      image: targetImage,
+      dryRun: !!args["dry-run"],
+      verbose: !!args["verbose"],
+      resize: {
+        bootSizeMB: Number(args["boot-size"] ?? 256),
+        imageSize: args["image-size"] ? String(args["image-size"]) : undefined,
+        shrinkToMin: !!args["shrink-to-min"],
+        headroom: args["headroom"] ? String(args["headroom"]) : undefined,
+        unsafeResizeExt4: !!args["unsafe-resize-ext4"],
+        expandOnBoot: !!args["expand-on-boot"],
+        zeroFree: !!args["zero-free"],
+        addPartitions,
+        addFstab: !!args["add-fstab"],
+        verifyFs: !!(args["verify-fs"] || args["verbose"]),
+        resume,
+      },
+    };
+    // Decided before anything is written, so a missing tool under --native leaves no half-made working copy
+    const native = chooseNative(job, { native: !!args["native"], runtime: (args["runtime"] as string | undefined) ?? process.env.RPI_TOOL_RUNTIME });
+
     // Prepare working image: decompress directly to workingPath for compressed inputs
-    const workImage = await prepareWorkingImage(image, workingPath, !!args["dry-run"]);
+    if (!resume) await prepareWorkingImage(image, workingPath, !!args["dry-run"]);
 
     try {
       // Create backups/working copy unless dry-run
-      let targetImage = workingName;
-
-      if (!args["dry-run"]) {
+      if (resume) {
+        console.error(`Resuming interrupted resize of ${workingPath}; layout and settings come from its journal`);
+      } else if (!args["dry-run"]) {
         if (algo) {
           // Backup the compressed source in its original directory
           const compressedBackupName = `${bareOriginal}_${ts}${extOriginal}`;
@@ -613,35 +770,38 @@ async function main() {
         } else {
           // Uncompressed: copy source to workDir as working file
           await createBackup(exec, image, workingPath, false);
-          console.log(`Working copy created: ${workingPath}`);
+          console.error(`Working copy created: ${workingPath}`);
         }
       } else {
-        console.log("Dry-run: not creating backup or working copy, operating read-only");
-        targetImage = imageBase; // use original name for dry-run
+        if (!args["json"]) console.log("Dry-run: not creating backup or working copy, operating read-only");
       }
 
-      const env = {
-        IMAGE_FILE: targetImage,
-        BOOT_SIZE_MB: String(args["boot-size"] ?? 256),
-        IMAGE_SIZE: args["image-size"] ? String(args["image-size"]) : "",
-        UNSAFE_RESIZE_EXT4: args["unsafe-resize-ext4"] ? "1" : "0",
-        DRY_RUN: args["dry-run"] ? "1" : "0",
-        VERBOSE: args["verbose"] ? "1" : "0",
-        VERIFY_FS: (args["verify-fs"] || args["verbose"]) ? "1" : "0",
-      } as Record<string, string>;
-
-      // Ensure Docker image exists (will auto-build from embedded resources if needed)
-      await ensureImage(exec, dockerImage);
-
-      const result = await runWorker(exec, {
-        image: dockerImage,
-        workdir: workDir,
-        env,
-        stream: true,
-      });
+      // --json: a dry-run prints the plan once; a real resize streams every event as NDJSON
+      const onEvent = !args["json"]
+        ? renderProgress(!!args["verbose"])
+        : args["dry-run"] ? undefined : (e: WorkerEvent) => console.log(JSON.stringify(e));
+      let result: WorkerResult;
+      if (native) {
+        console.error("Running natively on this host (no container)");
+        result = await runNative(exec, { workdir: workDir, job, onEvent });
+      } else {
+        // Ensure Docker image exists (will auto-build from embedded resources if needed)
+        const runtime = await workerRuntime(exec, args);
+        await ensureImage(exec, dockerImage, { runtime, rebuild: !!args["rebuild"] });
+        result = await runWorker(exec, { runtime, image: dockerImage, workdir: workDir, job, onEvent });
+      }
       process.exitCode = result.code;
 
-      if (result.code !== 0) throw new Error(`Worker failed: ${result.code}`);
+      if (result.code !== 0) {
+        if (args["json"] && args["dry-run"]) reportWorkerErrors(result);
+        if (!args["dry-run"]) reportInterruptedResize(workingPath);
+        throw new Error(`Worker failed: ${result.code}`);
+      }
+      if (args["json"]) {
+        if (args["dry-run"]) console.log(JSON.stringify(extractResizePlan(result.events), null, 2));
+        return;
+      }
+      if (args["dry-run"]) console.log(formatResizePlan(extractResizePlan(result.events), targetImage));
       if (args["verbose"]) {
         if (!args["dry-run"]) {
           const finalPath = `${workDir}/${workingName}`;
@@ -661,7 +821,8 @@ async function main() {
         console.log(`[DURATION] ${formatDuration(duration)}`);
       }
     } finally {
-      // No temporary decompression file to clean; workingPath remains for user
+      // workingPath remains for the user, except the temporary dry-run decompression
+      if (args["dry-run"] && algo) await exec.run(["rm", "-f", workingPath], { allowNonZeroExit: true });
     }
     return;
   }
@@ -1,4 +1,5 @@
-export type ArgSpec = { name: string; type: "string" | "boolean" | "number"; alias?: string; default?: any };
+// multiple: the option may be repeated; values are collected into an array
+export type ArgSpec = { name: string; type: "string" | "boolean" | "number"; alias?: string; default?: any; multiple?: boolean };
 
 export function parseArgs(argv: string[], specs: ArgSpec[]) {
   const map = new Map<string, ArgSpec>();
@@ -21,7 +22,8 @@ export function parseArgs(argv: string[], specs: ArgSpec[]) {
     } else {
       const val = argv[++i];
       if (val === undefined) throw new Error(`Missing value for ${tok}`);
-      result[spec.name] = spec.type === 'number' ? Number(val) : val;
+      const parsed = spec.type === 'number' ? Number(val) : val;
+      result[spec.name] = spec.multiple ? [...(result[spec.name] ?? []), parsed] : parsed;
     }
   }
   return { args: result, positional };
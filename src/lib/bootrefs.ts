@@ -0,0 +1,89 @@
+export type FsIdentity = {
+  number?: number; // partition number on the disk
+  partuuid?: string;
+  uuid?: string; // filesystem UUID (ext4) or volume ID (FAT)
+  label?: string;
+  type?: string; // filesystem type as reported by blkid (vfat, ext4, swap)
+};
+
+export type IdentityChange = { before: FsIdentity; after: FsIdentity };
+
+export type RefEdit = { file: string; from: string; to: string };
+
+// Whole-disk device paths as seen on the Pi (mmcblk/nvme use a "p" separator)
+const DEV_PATH = /^(\/dev\/(?:mmcblk\d+p|nvme\d+n\d+p|sd[a-z]+|vd[a-z]+))(\d+)$/;
+
+export function parseBlkidExport(text: string): FsIdentity {
+  const id: FsIdentity = {};
+  for (const line of text.split("\n")) {
+    const m = line.trim().match(/^([A-Z_]+)=(.*)$/);
+    if (!m) continue;
+    if (m[1] === "UUID") id.uuid = m[2];
+    else if (m[1] === "PARTUUID") id.partuuid = m[2];
+    else if (m[1] === "LABEL") id.label = m[2];
+    else if (m[1] === "TYPE") id.type = m[2];
+  }
+  return id;
+}
+
+function same(a?: string, b?: string): boolean {
+  return (a ?? "").toLowerCase() === (b ?? "").toLowerCase();
+}
+
+export function identityChanged(c: IdentityChange): boolean {
+  return !same(c.before.partuuid, c.after.partuuid) ||
+    !same(c.before.uuid, c.after.uuid) ||
+    !same(c.before.label, c.after.label) ||
+    c.before.number !== c.after.number;
+}
+
+/**
+ * Map a device spec (PARTUUID=, UUID=, LABEL= or /dev path) that refers to a
+ * changed partition onto its new identifier. Returns undefined if the spec
+ * does not match any changed partition.
+ */
+export function resolveSpec(spec: string, changes: IdentityChange[]): string | undefined {
+  const kv = spec.match(/^(PARTUUID|UUID|LABEL)=(.*)$/);
+  for (const { before, after } of changes) {
+    if (kv) {
+      const key = kv[1].toLowerCase() as "partuuid" | "uuid" | "label";
+      const value = kv[2].replace(/^"(.*)"$/, "$1");
+      if (before[key] && same(before[key], value) && after[key] && !same(before[key], after[key])) {
+        return `${kv[1]}=${after[key]}`;
+      }
+      continue;
+    }
+    const dev = spec.match(DEV_PATH);
+    if (dev && before.number !== undefined && after.number !== undefined &&
+        Number(dev[2]) === before.number && before.number !== after.number) {
+      return `${dev[1]}${after.number}`;
+    }
+  }
+  return undefined;
+}
+
+/** Rewrite every root= argument in a single-line cmdline.txt. */
+export function rewriteCmdline(text: string, changes: IdentityChange[], file = "cmdline.txt"): { text: string; edits: RefEdit[] } {
+  const edits: RefEdit[] = [];
+  const out = text.replace(/(^|\s)root=(\S+)/g, (whole, lead: string, spec: string) => {
+    const next = resolveSpec(spec, changes);
+    if (!next) return whole;
+    edits.push({ file, from: `root=${spec}`, to: `root=${next}` });
+    return `${lead}root=${next}`;
+  });
+  return { text: out, edits };
+}
+
+/** Rewrite the device field of /etc/fstab entries, keeping comments and spacing. */
+export function rewriteFstab(text: string, changes: IdentityChange[], file = "/etc/fstab"): { text: string; edits: RefEdit[] } {
+  const edits: RefEdit[] = [];
+  const lines = text.split("\n").map((line) => {
+    const m = line.match(/^(\s*)(\S+)(.*)$/);
+    if (!m || m[2].startsWith("#")) return line;
+    const next = resolveSpec(m[2], changes);
+    if (!next) return line;
+    edits.push({ file, from: m[2], to: next });
+    return `${m[1]}${next}${m[3]}`;
+  });
+  return { text: lines.join("\n"), edits };
+}
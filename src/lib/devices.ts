@@ -1,4 +1,5 @@
 import type { Executor } from "./executor";
+import { parseSize } from "./size";
 
 export function parseDiskutilListDevices(text: string): string[] {
   return text
@@ -17,35 +18,52 @@ export function isRemovableInfo(infoText: string): boolean {
   return /removable\s*$/i.test(line);
 }
 
-export function hasBootFatPartition(listText: string): boolean {
-  // Look for FAT32 partition with name 'boot' (common on Raspberry Pi)
-  // diskutil formats partition lines with TYPE and NAME; FAT often shown as Windows_FAT_32
-  return /Windows_FAT_32.*\bboot\b/i.test(listText);
+/** `diskutil info` as key/value pairs, e.g. "Device / Media Name" → "SD Card Reader". */
+export function parseDiskutilInfo(infoText: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of infoText.split(/\r?\n/)) {
+    const m = line.match(/^\s*([^:]+?):\s+(.*\S)\s*$/);
+    if (m) fields[m[1]] = m[2];
+  }
+  return fields;
 }
 
-export async function detectPiDisk(exec: Executor): Promise<string | undefined> {
-  const list = await exec.run(["diskutil", "list"]);
-  const devices = parseDiskutilListDevices(list.stdout);
-  for (const d of devices) {
-    const info = await exec.run(["diskutil", "info", d], { allowNonZeroExit: true });
-    if (!isRemovableInfo(info.stdout)) continue;
-    const dl = await exec.run(["diskutil", "list", d], { allowNonZeroExit: true });
-    if (hasBootFatPartition(dl.stdout)) return d;
-  }
-  return undefined;
+/** Exact size from the "Disk Size: 31.9 GB (31914983424 Bytes) ..." line, if present. */
+export function diskutilInfoBytes(fields: Record<string, string>): number | undefined {
+  const m = (fields["Disk Size"] ?? fields["Total Size"] ?? "").match(/\((\d+) Bytes\)/);
+  return m ? Number(m[1]) : undefined;
 }
 
-export async function detectRemovableDisk(exec: Executor): Promise<string | undefined> {
-  const list = await exec.run(["diskutil", "list"]);
-  const devices = parseDiskutilListDevices(list.stdout);
-  for (const d of devices) {
-    const info = await exec.run(["diskutil", "info", d], { allowNonZeroExit: true });
-    if (isRemovableInfo(info.stdout)) return d;
+/**
+ * Partitions of one disk from `diskutil list <disk>`. TYPE is right-aligned
+ * up to the NAME column of the header and NAME runs up to the size, so the
+ * header positions split them even when either contains spaces.
+ */
+export function parseDiskutilPartitions(listText: string): DeviceVolume[] {
+  const lines = listText.split(/\r?\n/);
+  const header = lines.find((l) => /^\s*#:\s+TYPE NAME/.test(l));
+  if (!header) return [];
+  const nameAt = header.indexOf("NAME");
+  const volumes: DeviceVolume[] = [];
+  for (const line of lines) {
+    // Entry 0 is the partition scheme itself
+    const m = line.match(/^\s*[1-9]\d*:.*\s(disk\d+s\d+)\s*$/);
+    if (!m) continue;
+    const fstype = line.slice(0, nameAt).replace(/^\s*\d+:/, "").trim();
+    const name = line.slice(nameAt).replace(/\s*\*?[\d.]+\s+[KMGTP]?B\s+disk\d+s\d+\s*$/, "").trim();
+    volumes.push({ id: `/dev/${m[1]}`, name: name || undefined, fstype: fstype || undefined });
   }
-  return undefined;
+  return volumes;
 }
 
-export function normalizeDevice(input: string): { disk: string; rdisk: string } {
+export function hasBootFatPartition(listText: string): boolean {
+  // Look for FAT32 partition named 'boot', or 'bootfs' since Bookworm (Raspberry Pi OS)
+  // diskutil formats partition lines with TYPE and NAME; FAT often shown as Windows_FAT_32
+  return /Windows_FAT_32.*\bboot(fs)?\b/i.test(listText);
+}
+
+/** macOS form of a `--device` argument: /dev/diskN or its raw twin /dev/rdiskN. */
+export function normalizeDevice(input: string): DevicePath {
   const t = input.trim();
   if (!t.startsWith("/dev/disk") && !t.startsWith("/dev/rdisk")) {
     throw new Error(`Invalid device path: ${input}`);
@@ -56,3 +74,334 @@ export function normalizeDevice(input: string): { disk: string; rdisk: string }
   }
   return { disk: n, rdisk: n.replace("/dev/disk", "/dev/rdisk") };
 }
+
+/** A whole disk as the CLI addresses it: `disk` to unmount and query, `rdisk` for dd. */
+export type DevicePath = { disk: string; rdisk: string };
+
+export type DeviceVolume = {
+  id: string; // partition node, e.g. /dev/disk4s1 or /dev/sdb1
+  name?: string; // volume name or filesystem label
+  fstype?: string;
+};
+
+/** What the device picker and the overwrite confirmation show about one disk. */
+export type DeviceInfo = {
+  disk: string;
+  sizeBytes: number;
+  vendor?: string;
+  model?: string;
+  mediaName?: string; // card name where the host reports one
+  volumes: DeviceVolume[];
+  piCard: boolean; // has a FAT boot partition
+  removable: boolean;
+  virtual: boolean; // synthesized by the OS (APFS container, disk image) rather than hardware
+};
+
+/**
+ * The host's view of SD cards and other removable disks. clone, write, size
+ * and deploy only talk to disks through this, so each platform's tools
+ * (diskutil on macOS, lsblk and sysfs on Linux) stay in one place.
+ */
+export interface DeviceProvider {
+  /** Parse a `--device` argument; throws for anything that is not a whole disk. */
+  normalize(input: string): DevicePath;
+  /** Every removable disk, in the order the host lists them. */
+  listRemovable(exe: Executor): Promise<DeviceInfo[]>;
+  /** Details of one disk, removable or not; throws when there is no such disk. */
+  describe(exe: Executor, disk: string): Promise<DeviceInfo>;
+  /** Whole disks backing the filesystem that contains `path` (several for RAID, LVM or APFS). */
+  disksHolding(exe: Executor, path: string): Promise<string[]>;
+  sizeBytes(exe: Executor, disk: string): Promise<number>;
+  /** Release every mounted volume of the disk before dd reads or writes it. */
+  unmount(exe: Executor, disk: string): Promise<void>;
+  /** Make the disk's volumes visible again once dd has finished. */
+  remount(exe: Executor, disk: string): Promise<void>;
+  /** dd's spelling of a block size such as "4m". */
+  ddBlockSize(bs: string): string;
+}
+
+class MacDeviceProvider implements DeviceProvider {
+  normalize(input: string): DevicePath {
+    return normalizeDevice(input);
+  }
+
+  async listRemovable(exe: Executor): Promise<DeviceInfo[]> {
+    const list = await exe.run(["diskutil", "list"]);
+    const found: DeviceInfo[] = [];
+    for (const d of parseDiskutilListDevices(list.stdout)) {
+      const info = await exe.run(["diskutil", "info", d], { allowNonZeroExit: true });
+      if (isRemovableInfo(info.stdout)) found.push(await this.details(exe, d, info.stdout));
+    }
+    return found;
+  }
+
+  async describe(exe: Executor, disk: string): Promise<DeviceInfo> {
+    const info = await exe.run(["diskutil", "info", disk], { allowNonZeroExit: true });
+    if (info.code !== 0) throw new Error(`No such disk: ${disk}`);
+    return this.details(exe, disk, info.stdout);
+  }
+
+  private async details(exe: Executor, disk: string, infoText: string): Promise<DeviceInfo> {
+    const fields = parseDiskutilInfo(infoText);
+    const dl = await exe.run(["diskutil", "list", disk], { allowNonZeroExit: true });
+    return {
+      disk,
+      sizeBytes: diskutilInfoBytes(fields) ?? (await this.sizeBytes(exe, disk)),
+      mediaName: fields["Device / Media Name"] ?? fields["Media Name"],
+      volumes: parseDiskutilPartitions(dl.stdout),
+      piCard: hasBootFatPartition(dl.stdout),
+      removable: isRemovableInfo(infoText),
+      virtual: fields["Virtual"] === "Yes" || fields["Device / Media Name"] === "AppleAPFSMedia",
+    };
+  }
+
+  // The root volume lives on a synthesized APFS container (disk3) whose physical store is a real disk (disk0)
+  async disksHolding(exe: Executor, path: string): Promise<string[]> {
+    const df = await exe.run(["df", "-P", path], { allowNonZeroExit: true });
+    const node = df.stdout.split(/\r?\n/)[1]?.split(/\s+/)[0];
+    if (!node?.startsWith("/dev/disk")) return [];
+    const info = await exe.run(["diskutil", "info", node], { allowNonZeroExit: true });
+    const fields = parseDiskutilInfo(info.stdout);
+    const ids = [fields["Part of Whole"] ?? "", ...(fields["APFS Physical Store"] ?? "").split(/[\s,]+/)];
+    const disks = ids.map((id) => id.match(/^disk\d+/)?.[0]).filter((d): d is string => !!d).map((d) => `/dev/${d}`);
+    return [...new Set(disks)];
+  }
+
+  async sizeBytes(exe: Executor, disk: string): Promise<number> {
+    const cmd = `diskutil info -plist ${disk} | plutil -convert json -o - -`;
+    const res = await exe.run(["bash", "-lc", cmd], { allowNonZeroExit: true });
+    if (res.code !== 0) throw new Error(`Failed to query disk info for ${disk}`);
+    try {
+      const info = JSON.parse(res.stdout);
+      // Prefer TotalSize, fall back to MediaSize or Size
+      return Number(info.TotalSize ?? info.MediaSize ?? info.Size ?? 0);
+    } catch {
+      throw new Error(`Unable to parse disk info JSON for ${disk}`);
+    }
+  }
+
+  async unmount(exe: Executor, disk: string): Promise<void> {
+    await exe.run(["diskutil", "unmountDisk", disk], { allowNonZeroExit: true });
+  }
+
+  async remount(exe: Executor, disk: string): Promise<void> {
+    await exe.run(["diskutil", "mountDisk", disk], { allowNonZeroExit: true });
+  }
+
+  ddBlockSize(bs: string): string {
+    return bs.toLowerCase();
+  }
+}
+
+/** One node of `lsblk --json`; partitions are nested under their disk. */
+export type LsblkDevice = {
+  name: string;
+  type: string;
+  size?: number | string | null; // bytes with --bytes; older lsblk prints numbers as strings
+  vendor?: string | null;
+  model?: string | null;
+  fstype?: string | null;
+  label?: string | null;
+  mountpoint?: string | null;
+  children?: LsblkDevice[];
+};
+
+// Whole SCSI/USB disks and SD/MMC cards; mmcblkNbootM and mmcblkNrpmb are eMMC hardware partitions
+const LINUX_DISK = /^(sd[a-z]+|mmcblk\d+)$/;
+const LINUX_PARTITION = /^(sd[a-z]+)\d+$|^(mmcblk\d+)p\d+$/;
+
+const LSBLK_COLUMNS = "NAME,TYPE,SIZE,VENDOR,MODEL,FSTYPE,LABEL,MOUNTPOINT";
+
+/** Disks from `lsblk --json` that the CLI may address; loop, zram and virtio devices are left out. */
+export function parseLsblkDisks(json: string): LsblkDevice[] {
+  let parsed: { blockdevices?: LsblkDevice[] };
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Unable to parse lsblk JSON output");
+  }
+  return (parsed.blockdevices ?? []).filter((d) => d.type === "disk" && LINUX_DISK.test(d.name));
+}
+
+/** Raspberry Pi OS labels its FAT boot partition "boot", or "bootfs" since Bookworm. */
+export function lsblkHasBootFat(disk: LsblkDevice): boolean {
+  return (disk.children ?? []).some((p) => p.fstype === "vfat" && /^boot(fs)?$/i.test(p.label ?? ""));
+}
+
+export function normalizeLinuxDevice(input: string): DevicePath {
+  const t = input.trim();
+  if (!t.startsWith("/dev/")) throw new Error(`Invalid device path: ${input}`);
+  const name = t.slice("/dev/".length);
+  const part = name.match(LINUX_PARTITION);
+  if (part) throw new Error(`${t} is a partition; pass the whole disk (/dev/${part[1] ?? part[2]})`);
+  if (!LINUX_DISK.test(name)) {
+    throw new Error(`Unsupported device format: ${input} (expected /dev/sdX or /dev/mmcblkN)`);
+  }
+  // Linux has no separate raw node; dd goes through the block device itself
+  return { disk: t, rdisk: t };
+}
+
+class LinuxDeviceProvider implements DeviceProvider {
+  normalize(input: string): DevicePath {
+    return normalizeLinuxDevice(input);
+  }
+
+  async listRemovable(exe: Executor): Promise<DeviceInfo[]> {
+    const found: DeviceInfo[] = [];
+    for (const d of await this.listDisks(exe)) {
+      const info = await this.details(exe, d);
+      if (info.removable) found.push(info);
+    }
+    return found;
+  }
+
+  async describe(exe: Executor, disk: string): Promise<DeviceInfo> {
+    const res = await exe.run(["lsblk", "--json", "--bytes", "--output", LSBLK_COLUMNS, disk], { allowNonZeroExit: true });
+    const [d] = res.code === 0 ? parseLsblkDisks(res.stdout) : [];
+    if (!d) throw new Error(`No such disk: ${disk}`);
+    return this.details(exe, d);
+  }
+
+  // --inverse walks from the mounted node (partition, LVM volume, LUKS mapping) down to its disks
+  async disksHolding(exe: Executor, path: string): Promise<string[]> {
+    const mnt = await exe.run(["findmnt", "--noheadings", "--output", "SOURCE", "--target", path], { allowNonZeroExit: true });
+    const source = mnt.stdout.trim().replace(/\[.*\]$/, ""); // btrfs appends the subvolume, /dev/sda2[/@]
+    if (mnt.code !== 0 || !source.startsWith("/dev/")) return []; // tmpfs, overlay, network filesystems
+    const res = await exe.run(["lsblk", "--json", "--inverse", "--output", "NAME,TYPE", source], { allowNonZeroExit: true });
+    if (res.code !== 0) return [];
+    const disks: string[] = [];
+    const walk = (nodes: LsblkDevice[] = []) => {
+      for (const n of nodes) {
+        if (n.type === "disk") disks.push(`/dev/${n.name}`);
+        walk(n.children);
+      }
+    };
+    walk(JSON.parse(res.stdout).blockdevices);
+    return [...new Set(disks)];
+  }
+
+  // sysfs counts 512-byte sectors whatever the device's logical block size
+  async sizeBytes(exe: Executor, disk: string): Promise<number> {
+    const name = this.normalize(disk).disk.slice("/dev/".length);
+    const sectors = Number((await this.sysfs(exe, name, "size")) ?? NaN);
+    if (!Number.isFinite(sectors)) throw new Error(`Failed to query disk size for ${disk}`);
+    return sectors * 512;
+  }
+
+  // A busy volume must stop the operation: dd under a mounted filesystem corrupts both
+  async unmount(exe: Executor, disk: string): Promise<void> {
+    const res = await exe.run(["lsblk", "--json", "--output", LSBLK_COLUMNS, disk]);
+    const mounted = parseLsblkDisks(res.stdout)
+      .flatMap((d) => [d, ...(d.children ?? [])])
+      .filter((n) => n.mountpoint);
+    for (const n of mounted) {
+      const um = await exe.run(["sudo", "umount", `/dev/${n.name}`], { allowNonZeroExit: true });
+      if (um.code !== 0) {
+        throw new Error(`Cannot unmount /dev/${n.name} (mounted at ${n.mountpoint}): ${um.stderr.trim()}`);
+      }
+    }
+  }
+
+  // Re-reading the partition table lets the desktop's automounter pick up the new volumes
+  async remount(exe: Executor, disk: string): Promise<void> {
+    await exe.run(["sudo", "blockdev", "--rereadpt", disk], { allowNonZeroExit: true });
+  }
+
+  // GNU dd only knows upper-case multipliers (4M); "4m" is rejected as an invalid number
+  ddBlockSize(bs: string): string {
+    return bs.toUpperCase();
+  }
+
+  private async details(exe: Executor, d: LsblkDevice): Promise<DeviceInfo> {
+    return {
+      disk: `/dev/${d.name}`,
+      sizeBytes: Number(d.size ?? 0),
+      vendor: d.vendor?.trim() || undefined, // lsblk pads VENDOR to eight characters
+      model: d.model?.trim() || undefined,
+      // SD/MMC cards report their product name from the card ID
+      mediaName: d.name.startsWith("mmcblk") ? await this.sysfs(exe, d.name, "device/name") : undefined,
+      volumes: (d.children ?? []).map((p) => ({ id: `/dev/${p.name}`, name: p.label ?? undefined, fstype: p.fstype ?? undefined })),
+      piCard: lsblkHasBootFat(d),
+      removable: await this.isRemovable(exe, d.name),
+      virtual: false, // loop, device-mapper and zram nodes never pass parseLsblkDisks
+    };
+  }
+
+  private async listDisks(exe: Executor): Promise<LsblkDevice[]> {
+    const res = await exe.run(["lsblk", "--json", "--bytes", "--output", LSBLK_COLUMNS]);
+    return parseLsblkDisks(res.stdout);
+  }
+
+  // The SD slot itself is fixed, so the kernel reports mmcblk cards as non-removable;
+  // device/type tells an SD card apart from soldered-on eMMC
+  private async isRemovable(exe: Executor, name: string): Promise<boolean> {
+    if (name.startsWith("mmcblk")) return (await this.sysfs(exe, name, "device/type")) === "SD";
+    return (await this.sysfs(exe, name, "removable")) === "1";
+  }
+
+  private async sysfs(exe: Executor, name: string, attr: string): Promise<string | undefined> {
+    const res = await exe.run(["cat", `/sys/block/${name}/${attr}`], { allowNonZeroExit: true });
+    return res.code === 0 ? res.stdout.trim() : undefined;
+  }
+}
+
+export function createDeviceProvider(platform: string = process.platform): DeviceProvider {
+  switch (platform) {
+    case "darwin": return new MacDeviceProvider();
+    case "linux": return new LinuxDeviceProvider();
+    default: throw new Error(`Device commands are not supported on ${platform} (macOS and Linux only)`);
+  }
+}
+
+/** Largest disk write and deploy accept without --force-unsafe-device. */
+export const DEFAULT_MAX_DEVICE_SIZE = "256GB";
+
+/** Why a disk must not be overwritten; each check has its own code. */
+export type UnsafeDeviceCode =
+  | "NOT_REMOVABLE" // internal or fixed disk
+  | "SYSTEM_DISK" // holds the root volume or the current directory
+  | "TOO_LARGE" // above the size cap; SD cards and USB sticks are small
+  | "APFS_CONTAINER"; // synthesized APFS container or disk image, or a disk carrying one
+
+export class UnsafeDeviceError extends Error {
+  constructor(readonly code: UnsafeDeviceCode, message: string) {
+    super(message);
+    this.name = "UnsafeDeviceError";
+  }
+}
+
+/**
+ * Every reason `info` is not a plausible SD card or USB stick to overwrite,
+ * checked against the disks holding each of `paths`. Empty when it is safe.
+ */
+export async function findDeviceHazards(
+  exe: Executor,
+  devices: DeviceProvider,
+  info: DeviceInfo,
+  options: { maxSize?: string; paths?: string[] } = {},
+): Promise<UnsafeDeviceError[]> {
+  const { maxSize = DEFAULT_MAX_DEVICE_SIZE, paths = ["/", process.cwd()] } = options;
+  const hazards: UnsafeDeviceError[] = [];
+  if (!info.removable) {
+    hazards.push(new UnsafeDeviceError("NOT_REMOVABLE", `${info.disk} is not removable media (an internal or fixed disk)`));
+  }
+  for (const path of paths) {
+    if (!(await devices.disksHolding(exe, path)).includes(info.disk)) continue;
+    const what = path === "/" ? "the root volume" : `the current directory (${path})`;
+    hazards.push(new UnsafeDeviceError("SYSTEM_DISK", `${info.disk} holds ${what}`));
+    break;
+  }
+  const cap = parseSize(maxSize);
+  if (info.sizeBytes > cap) {
+    // Both in GiB, the unit --max-device-size is read in
+    const gib = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GiB`;
+    hazards.push(new UnsafeDeviceError("TOO_LARGE", `${info.disk} is ${gib(info.sizeBytes)}, above the ${gib(cap)} limit for SD cards (raise it with --max-device-size)`));
+  }
+  const apfs = info.volumes.find((v) => /apfs/i.test(v.fstype ?? ""));
+  if (info.virtual) {
+    hazards.push(new UnsafeDeviceError("APFS_CONTAINER", `${info.disk} is a synthesized disk (APFS container or disk image), not a physical device`));
+  } else if (apfs) {
+    hazards.push(new UnsafeDeviceError("APFS_CONTAINER", `${info.disk} holds an APFS container (${apfs.id})`));
+  }
+  return hazards;
+}
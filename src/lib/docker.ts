@@ -1,33 +1,66 @@
-import type { Executor } from "./executor";
+import type { Executor, ExecResult } from "./executor";
+import { lineSplitter, parseWorkerEvent, type WorkerEvent } from "./events";
+import { JOB_FILE, RESULT_FILE, type JobResult, type ResizeJob } from "./job";
+import { createRuntime, type ContainerRuntime } from "./runtime";
 import { DOCKERFILE, WORKER_JS } from "./embedded";
-import { existsSync, mkdirSync } from "fs";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
 
 export type DockerRunOptions = {
+  runtime?: ContainerRuntime; // default docker
   image: string; // docker image name
   workdir: string; // host workdir to mount at /work
-  env?: Record<string, string | number | boolean | undefined>;
+  job: ResizeJob; // written to <workdir>/.job.json for the worker
   privileged?: boolean;
   entry?: string[]; // override entrypoint/cmd
-  stream?: boolean; // stream docker stdout/stderr to console
+  onEvent?: (event: WorkerEvent) => void; // live worker events; docker's own stderr is forwarded while set
+};
+
+export type WorkerResult = ExecResult & { events: WorkerEvent[]; outcome?: JobResult };
+
+/** Label carrying the hash of the embedded resources an image was built from. */
+export const WORKER_HASH_LABEL = "rpi-tool.worker-hash";
+
+/** Content hash of the embedded Dockerfile and worker; changes with every release that touches either. */
+export function workerHash(dockerfile = DOCKERFILE, workerJs = WORKER_JS): string {
+  return createHash("sha256").update(dockerfile).update("\0").update(workerJs).digest("hex").slice(0, 16);
+}
+
+export type EnsureImageOptions = {
+  runtime?: ContainerRuntime; // default docker
+  rebuild?: boolean; // build even when the image is current
+  contextDir?: string; // development mode: build from this directory, never checked for staleness
 };
 
 /**
- * Check if Docker image exists, and build it from embedded resources if not
+ * Make sure the worker image exists and was built from the embedded
+ * resources of this CLI; an image left behind by another version is rebuilt.
+ * Progress goes to stderr so commands with --json output keep stdout clean.
  */
-export async function ensureImage(exe: Executor, image: string, contextDir?: string) {
-  const inspect = await exe.run(["docker", "image", "inspect", image], { allowNonZeroExit: true });
-  if (inspect.code === 0) return;
+export async function ensureImage(exe: Executor, image: string, options: EnsureImageOptions = {}) {
+  const { rebuild, contextDir } = options;
+  const runtime = options.runtime ?? createRuntime("docker");
+  const inspect = await exe.run(
+    runtime.command("image", "inspect", "--format", runtime.idAndLabelFormat(WORKER_HASH_LABEL), image),
+    { allowNonZeroExit: true },
+  );
+  const [oldId, builtHash] = inspect.code === 0 ? inspect.stdout.trim().split(/\s+/) : [];
+  const hash = workerHash();
 
   // If contextDir provided (development mode), use it
   if (contextDir && existsSync(contextDir)) {
-    console.log(`Building Docker image from ${contextDir}...`);
-    await exe.run(["docker", "build", "-t", image, contextDir]);
+    if (oldId && !rebuild) return;
+    console.error(`Building ${runtime.name} image from ${contextDir}...`);
+    await exe.run(runtime.command("build", "-t", image, contextDir));
     return;
   }
+  if (oldId && builtHash === hash && !rebuild) return;
 
   // Otherwise, build from embedded resources (production mode)
-  console.log(`Building Docker image (first run)...`);
+  if (!oldId) console.error(`Building ${runtime.name} image (first run)...`);
+  else if (rebuild) console.error(`Rebuilding ${runtime.name} image ${image}...`);
+  else console.error(`${runtime.name} image ${image} was built by another rpi-tool version; rebuilding...`);
   const tempDir = join("/tmp", `docker-build-${Date.now()}`);
   
   try {
@@ -38,8 +71,14 @@ export async function ensureImage(exe: Executor, image: string, contextDir?: str
     await Bun.write(join(tempDir, "worker.js"), WORKER_JS);
     
     // Build image
-    await exe.run(["docker", "build", "-t", image, tempDir]);
-    console.log("✓ Docker image ready");
+    await exe.run(runtime.command("build", "--label", `${WORKER_HASH_LABEL}=${hash}`, "-t", image, tempDir));
+    // The replaced image lost its tag; drop it unless a container still uses it.
+    // A fully cached rebuild yields the same image, which must stay.
+    if (oldId) {
+      const newId = (await exe.run(runtime.command("image", "inspect", "--format", "{{.Id}}", image), { allowNonZeroExit: true })).stdout.trim();
+      if (newId !== oldId) await exe.run(runtime.command("image", "rm", oldId), { allowNonZeroExit: true });
+    }
+    console.error(`✓ ${runtime.name} image ready`);
   } finally {
     // Cleanup temp directory
     try {
@@ -50,21 +89,46 @@ export async function ensureImage(exe: Executor, image: string, contextDir?: str
   }
 }
 
-export async function runWorker(exe: Executor, opts: DockerRunOptions) {
-  const args: string[] = ["docker", "run", "--rm"]; 
-  if (opts.privileged ?? true) args.push("--privileged");
+/**
+ * Run the worker container on a job. Its stdout is newline-delimited JSON
+ * events, collected in the result and passed to `onEvent` as they arrive;
+ * the .result.json it leaves behind becomes `outcome`. Both job files are
+ * removed from the work directory afterwards.
+ */
+export async function runWorker(exe: Executor, opts: DockerRunOptions): Promise<WorkerResult> {
+  const runtime = opts.runtime ?? createRuntime("docker");
+  const args = runtime.command("run", "--rm");
+  if (opts.privileged ?? true) args.push(...runtime.privilegedFlags());
   args.push("-v", `${opts.workdir}:/work`);
-  if (opts.env) {
-    for (const [k, v] of Object.entries(opts.env)) {
-      if (v === undefined) continue;
-      args.push("-e", `${k}=${String(v)}`);
-    }
-  }
   args.push(opts.image);
   if (opts.entry && opts.entry.length) args.push(...opts.entry);
-  return exe.run(args, {
-    cwd: opts.workdir,
-    onStdoutChunk: opts.stream ? (s) => process.stdout.write(s) : undefined,
-    onStderrChunk: opts.stream ? (s) => process.stderr.write(s) : undefined,
+  const events: WorkerEvent[] = [];
+  let streamed = false;
+  const lines = lineSplitter((line) => {
+    const event = parseWorkerEvent(line);
+    if (!event) return;
+    events.push(event);
+    opts.onEvent?.(event);
   });
+  const jobFile = join(opts.workdir, JOB_FILE);
+  const resultFile = join(opts.workdir, RESULT_FILE);
+  rmSync(resultFile, { force: true });
+  writeFileSync(jobFile, JSON.stringify(opts.job, null, 2));
+  try {
+    // A failed worker still reports its error event; callers check the exit code
+    const res = await exe.run(args, {
+      cwd: opts.workdir,
+      allowNonZeroExit: true,
+      onStdoutChunk: (s) => { streamed = true; lines.push(s); },
+      onStderrChunk: opts.onEvent ? (s) => process.stderr.write(s) : undefined,
+    });
+    // Executors that do not stream hand over stdout only at the end
+    if (!streamed) lines.push(res.stdout);
+    lines.end();
+    const outcome = existsSync(resultFile) ? (JSON.parse(readFileSync(resultFile, "utf8")) as JobResult) : undefined;
+    return { ...res, events, outcome };
+  } finally {
+    rmSync(jobFile, { force: true });
+    rmSync(resultFile, { force: true });
+  }
 }
@@ -33,6 +33,7 @@ RUN apt-get update && apt-get install -y --no-install-recommends \\
     e2fsprogs \\
     dosfstools \\
     rsync \\
+    zerofree \\
     zstd \\
     xz-utils \\
     parted \\
@@ -0,0 +1,98 @@
+import type { InspectProbe } from "./inspect";
+import type { ResizePlan } from "./plan";
+import type { SfdiskTable } from "./sfdisk";
+
+export type LogLevel = "info" | "warn" | "error" | "summary";
+
+/** Failure classes the worker reports; the CLI and --json consumers branch on these. */
+export type ErrorCode =
+  | "INVALID_CONFIG" // missing or contradictory settings
+  | "INCOMPATIBLE_JOB" // job written by a CLI speaking another protocol version
+  | "IMAGE_NOT_FOUND"
+  | "PLAN_INFEASIBLE" // the requested layout does not fit the image
+  | "UNSUPPORTED_LAYOUT" // no boot/root found, root not ext4, identifiers not preserved
+  | "FS_CHECK_FAILED" // e2fsck reported errors it could not fix
+  | "JOURNAL" // missing, incompatible or unrecoverable journal
+  | "COMMAND_FAILED" // a Linux tool exited non-zero
+  | "INTERRUPTED" // SIGTERM/SIGINT
+  | "INTERNAL";
+
+/**
+ * One line of the worker's stdout. Steps are flat and sequential: a
+ * step-start closes the step before it, so progress always belongs to the
+ * most recently started step.
+ */
+export type WorkerEvent =
+  | { type: "log"; level: LogLevel; message: string }
+  | { type: "step-start"; id: string; title: string }
+  | { type: "step-end"; id: string; ok: boolean; ms: number }
+  | { type: "progress"; percent: number }
+  | { type: "plan"; plan: ResizePlan }
+  | { type: "inspect"; probe: InspectProbe }
+  | { type: "layout"; table: SfdiskTable; imageBytes: number }
+  | { type: "error"; code: ErrorCode; message: string };
+
+/** An error carrying the code reported in the worker's final error event. */
+export class WorkerError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = "WorkerError";
+  }
+}
+
+/** Parse one stdout line; anything that is not an event (a crash trace, say) becomes an info log. */
+export function parseWorkerEvent(line: string): WorkerEvent | undefined {
+  const text = line.trimEnd();
+  if (!text) return undefined;
+  if (text.startsWith("{")) {
+    try {
+      const e = JSON.parse(text);
+      if (e && typeof e.type === "string") return e as WorkerEvent;
+    } catch {
+      // fall through to plain text
+    }
+  }
+  return { type: "log", level: "info", message: text };
+}
+
+/**
+ * Split streamed chunks into lines. Carriage returns count as line ends so
+ * tools that redraw a progress line in place yield one line per update.
+ */
+export function lineSplitter(onLine: (line: string) => void): { push(chunk: string): void; end(): void } {
+  let rest = "";
+  return {
+    push(chunk) {
+      const parts = (rest + chunk).split(/\r\n|\r|\n/);
+      rest = parts.pop() ?? "";
+      for (const p of parts) onLine(p);
+    },
+    end() {
+      if (rest) onLine(rest);
+      rest = "";
+    },
+  };
+}
+
+/** e2fsck -C 1 prints "pass current max"; passes 1-5 are weighted equally. */
+export function parseE2fsckProgress(line: string): number | undefined {
+  const m = line.trim().match(/^([1-5]) (\d+) (\d+)$/);
+  if (!m || Number(m[3]) === 0) return undefined;
+  return Math.min(100, Math.floor(((Number(m[1]) - 1 + Number(m[2]) / Number(m[3])) / 5) * 100));
+}
+
+/** rsync --info=progress2 prints the overall percentage on each update. */
+export function parseRsyncProgress(line: string): number | undefined {
+  const m = line.match(/^\s*[\d,.]+[KMGT]?\s+(\d{1,3})%/);
+  return m ? Number(m[1]) : undefined;
+}
+
+/** e2image -p prints "Copying N / M blocks (P%)". */
+export function parseE2imageProgress(line: string): number | undefined {
+  const m = line.match(/\((\d{1,3})%\)/);
+  return m ? Number(m[1]) : undefined;
+}
+
+export function findEvent<T extends WorkerEvent["type"]>(events: WorkerEvent[], type: T): Extract<WorkerEvent, { type: T }> | undefined {
+  return events.find((e): e is Extract<WorkerEvent, { type: T }> => e.type === type);
+}
@@ -0,0 +1,31 @@
+export type Ext4Params = {
+  uuid?: string;
+  blockSize?: number;
+  blockCount?: number;
+};
+
+/**
+ * Parse the superblock summary printed by `dumpe2fs -h` (same fields as `tune2fs -l`).
+ */
+export function parseDumpe2fsHeader(text: string): Ext4Params {
+  const p: Ext4Params = {};
+  for (const line of text.split("\n")) {
+    const m = line.match(/^([A-Za-z][A-Za-z #_-]*?):\s*(.*)$/);
+    if (!m) continue;
+    const [, key, raw] = m;
+    const val = raw.trim();
+    switch (key) {
+      case "Filesystem UUID": if (val && val !== "<none>") p.uuid = val; break;
+      case "Block size": p.blockSize = Number(val); break;
+      case "Block count": p.blockCount = Number(val); break;
+    }
+  }
+  return p;
+}
+
+/** Minimum filesystem size in blocks from `resize2fs -P` output. */
+export function parseResize2fsMinimum(text: string): number {
+  const m = text.match(/Estimated minimum size of the filesystem:\s*(\d+)/);
+  if (!m) throw new Error("Unable to determine minimum filesystem size from resize2fs -P");
+  return Number(m[1]);
+}
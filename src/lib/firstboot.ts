@@ -0,0 +1,69 @@
+export type ExpandMechanism =
+  | { kind: "raspi-firstboot"; init: string } // Raspberry Pi OS Bookworm and later
+  | { kind: "raspi-init-resize"; init: string } // Raspberry Pi OS Bullseye and earlier
+  | { kind: "systemd" }; // anything else: rpi-tool's own growpart unit
+
+export const RASPI_FIRSTBOOT = "/usr/lib/raspberrypi-sys-mods/firstboot";
+export const RASPI_INIT_RESIZE = "/usr/lib/raspi-config/init_resize.sh";
+
+export const EXPAND_UNIT_NAME = "rpi-tool-expand-root.service";
+export const EXPAND_UNIT_PATH = `/etc/systemd/system/${EXPAND_UNIT_NAME}`;
+export const EXPAND_UNIT_LINK = `/etc/systemd/system/multi-user.target.wants/${EXPAND_UNIT_NAME}`;
+export const EXPAND_SCRIPT_PATH = "/usr/local/sbin/rpi-tool-expand-root.sh";
+
+export const EXPAND_UNIT = `[Unit]
+Description=Expand root partition and filesystem to fill the disk (rpi-tool)
+ConditionPathExists=${EXPAND_SCRIPT_PATH}
+After=local-fs.target
+
+[Service]
+Type=oneshot
+ExecStart=${EXPAND_SCRIPT_PATH}
+
+[Install]
+WantedBy=multi-user.target
+`;
+
+export const EXPAND_SCRIPT = `#!/bin/sh
+# Installed by rpi-tool --expand-on-boot; runs once, then removes itself
+set -e
+ROOT_DEV=$(findmnt -no SOURCE /)
+DISK=/dev/$(lsblk -no PKNAME "$ROOT_DEV")
+PARTNUM=$(cat "/sys/class/block/$(basename "$ROOT_DEV")/partition")
+if command -v growpart >/dev/null 2>&1; then
+  growpart "$DISK" "$PARTNUM" || true
+else
+  echo ", +" | sfdisk --force --no-reread -N "$PARTNUM" "$DISK"
+  partx -u "$DISK" || true
+fi
+resize2fs "$ROOT_DEV"
+rm -f ${EXPAND_UNIT_LINK} ${EXPAND_UNIT_PATH} ${EXPAND_SCRIPT_PATH}
+`;
+
+const RESIZE_INITS = [RASPI_FIRSTBOOT, RASPI_INIT_RESIZE];
+
+/**
+ * Pick the first-boot expansion mechanism for the root filesystem.
+ * `exists` receives absolute paths as seen on the target system.
+ */
+export function detectExpandMechanism(exists: (path: string) => boolean, cmdline: string): ExpandMechanism {
+  // A foreign init= would be replaced by ours; fall back to the systemd unit instead
+  const foreignInit = cmdline.split(/\s+/).some((t) => t.startsWith("init=") && !RESIZE_INITS.includes(t.slice(5)));
+  if (!foreignInit && exists(RASPI_FIRSTBOOT)) return { kind: "raspi-firstboot", init: RASPI_FIRSTBOOT };
+  if (!foreignInit && exists(RASPI_INIT_RESIZE)) return { kind: "raspi-init-resize", init: RASPI_INIT_RESIZE };
+  return { kind: "systemd" };
+}
+
+/** Drop the Raspberry Pi OS resize init= hooks from cmdline.txt. */
+export function removeExpandFromCmdline(cmdline: string): string {
+  const trailing = cmdline.endsWith("\n") ? "\n" : "";
+  const tokens = cmdline.trim().split(/\s+/).filter((t) => !(t.startsWith("init=") && RESIZE_INITS.includes(t.slice(5))));
+  return tokens.join(" ") + trailing;
+}
+
+/** Append init=<path> to cmdline.txt, replacing any existing resize hook. */
+export function addExpandToCmdline(cmdline: string, init: string): string {
+  const trailing = cmdline.endsWith("\n") ? "\n" : "";
+  const base = removeExpandFromCmdline(cmdline).trim();
+  return `${base} init=${init}`.trim() + trailing;
+}
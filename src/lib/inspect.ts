@@ -0,0 +1,141 @@
+import type { FsIdentity } from "./bootrefs";
+import { findEvent, type WorkerEvent } from "./events";
+import type { OsRelease } from "./osrelease";
+import { partitionEnd, type SfdiskTable } from "./sfdisk";
+
+/** What the worker learns about one partition's filesystem (MODE=inspect). */
+export type FsProbe = FsIdentity & {
+  number: number;
+  sizeBytes?: number;
+  usedBytes?: number;
+  freeBytes?: number;
+};
+
+export type InspectProbe = {
+  filesystems: FsProbe[];
+  os?: OsRelease;
+  bootFiles: string[]; // top-level entries of the boot partition, directories with a trailing /
+};
+
+export type InspectPartition = {
+  number: number;
+  start: number;
+  end: number;
+  sectors: number;
+  sizeBytes: number;
+  type?: string;
+  name?: string;
+  partuuid?: string;
+  bootable?: boolean;
+  filesystem?: {
+    type?: string;
+    label?: string;
+    uuid?: string;
+    sizeBytes?: number;
+    usedBytes?: number;
+    freeBytes?: number;
+  };
+};
+
+export type InspectReport = {
+  image: string;
+  sizeBytes: number;
+  table: { label: SfdiskTable["label"]; labelId?: string };
+  partitions: InspectPartition[];
+  os?: { prettyName?: string; id?: string; versionId?: string; versionCodename?: string };
+  bootFiles: string[];
+  warnings: string[];
+};
+
+/** Parse `df -B1 --output=size,used,avail <mountpoint>`. */
+export function parseDfBytes(text: string): { sizeBytes: number; usedBytes: number; freeBytes: number } {
+  const row = text.trim().split("\n").map((l) => l.trim().split(/\s+/)).find((f) => f.length === 3 && f.every((v) => /^\d+$/.test(v)));
+  if (!row) throw new Error("Unable to parse df output");
+  const [sizeBytes, usedBytes, freeBytes] = row.map(Number);
+  return { sizeBytes, usedBytes, freeBytes };
+}
+
+export function extractInspectProbe(events: WorkerEvent[]): InspectProbe {
+  const e = findEvent(events, "inspect");
+  if (!e) throw new Error("Worker did not report inspection results");
+  return e.probe;
+}
+
+export function buildInspectReport(image: string, sizeBytes: number, table: SfdiskTable, probe: InspectProbe | undefined, warnings: string[] = []): InspectReport {
+  const sectorSize = table.sectorSize ?? 512;
+  const partitions = table.partitions.map((p): InspectPartition => {
+    const fs = probe?.filesystems.find((f) => f.number === p.number);
+    const out: InspectPartition = {
+      number: p.number,
+      start: p.start,
+      end: partitionEnd(p),
+      sectors: p.size,
+      sizeBytes: p.size * sectorSize,
+    };
+    if (p.type) out.type = p.type;
+    if (p.name) out.name = p.name;
+    if (p.bootable) out.bootable = true;
+    const partuuid = p.uuid ?? fs?.partuuid;
+    if (partuuid) out.partuuid = partuuid;
+    if (fs && (fs.type || fs.uuid || fs.label)) {
+      out.filesystem = { type: fs.type, label: fs.label, uuid: fs.uuid, sizeBytes: fs.sizeBytes, usedBytes: fs.usedBytes, freeBytes: fs.freeBytes };
+    }
+    return out;
+  });
+  const report: InspectReport = {
+    image,
+    sizeBytes,
+    table: { label: table.label, labelId: table.labelId },
+    partitions,
+    bootFiles: probe?.bootFiles ?? [],
+    warnings,
+  };
+  if (probe?.os) {
+    report.os = { prettyName: probe.os.PRETTY_NAME, id: probe.os.ID, versionId: probe.os.VERSION_ID, versionCodename: probe.os.VERSION_CODENAME };
+  }
+  return report;
+}
+
+function human(bytes?: number): string {
+  if (bytes === undefined) return "-";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let v = bytes;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) { v /= 1024; i++; }
+  return `${i === 0 ? v : v.toFixed(1)}${units[i]}`;
+}
+
+/** Pad each cell to its column's widest entry; the first row is the header. */
+export function columns(rows: string[][]): string[] {
+  const widths = rows[0].map((_, c) => Math.max(...rows.map((r) => r[c].length)));
+  return rows.map((r) => r.map((cell, c) => cell.padEnd(widths[c])).join("  ").trimEnd());
+}
+
+export function formatInspectReport(r: InspectReport): string {
+  const lines: string[] = [];
+  lines.push(`Image: ${r.image} (${human(r.sizeBytes)}, ${r.sizeBytes} bytes)`);
+  lines.push(`Partition table: ${r.table.label}${r.table.labelId ? ` (disk identifier ${r.table.labelId})` : ""}`);
+  lines.push("");
+  const rows = [["#", "Start", "End", "Size", "Type", "FS", "Label", "UUID", "Used", "Free"]];
+  for (const p of r.partitions) {
+    const fs = p.filesystem;
+    rows.push([
+      `${p.number}${p.bootable ? "*" : ""}`,
+      String(p.start),
+      String(p.end),
+      human(p.sizeBytes),
+      p.name ? `${p.type ?? "-"} (${p.name})` : p.type ?? "-",
+      fs?.type ?? "-",
+      fs?.label ?? "-",
+      fs?.uuid ?? "-",
+      human(fs?.usedBytes),
+      human(fs?.freeBytes),
+    ]);
+  }
+  lines.push(...columns(rows));
+  lines.push("");
+  lines.push(`OS: ${r.os?.prettyName ?? "unknown"}`);
+  lines.push(`Boot files: ${r.bootFiles.length ? r.bootFiles.join(", ") : "(none found)"}`);
+  for (const w of r.warnings) lines.push(`Warning: ${w}`);
+  return lines.join("\n");
+}
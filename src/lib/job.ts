@@ -0,0 +1,146 @@
+import { WorkerError, findEvent, type ErrorCode, type WorkerEvent } from "./events";
+import type { InspectProbe } from "./inspect";
+import type { ResizePlan } from "./plan";
+import type { SfdiskTable } from "./sfdisk";
+
+/** Bumped whenever a field of ResizeJob or JobResult changes meaning. */
+export const JOB_PROTOCOL = 1;
+
+// Both files live in the directory mounted at /work
+export const JOB_FILE = ".job.json";
+export const RESULT_FILE = ".result.json";
+
+export type ResizeSettings = {
+  bootSizeMB: number;
+  imageSize?: string; // e.g. "32GB"; parsed by the worker
+  shrinkToMin: boolean;
+  headroom?: string; // free space kept in root with shrinkToMin, e.g. "256MB"
+  unsafeResizeExt4: boolean;
+  expandOnBoot: boolean;
+  zeroFree: boolean;
+  addPartitions: string[]; // name:fstype:size[:label] specs
+  addFstab: boolean;
+  verifyFs: boolean;
+  resume: boolean; // settings come from the journal instead
+};
+
+export const DEFAULT_RESIZE_SETTINGS: ResizeSettings = {
+  bootSizeMB: 256,
+  shrinkToMin: false,
+  unsafeResizeExt4: false,
+  expandOnBoot: false,
+  zeroFree: false,
+  addPartitions: [],
+  addFstab: false,
+  verifyFs: false,
+  resume: false,
+};
+
+/** What the CLI asks one worker run to do, written to /work/.job.json. */
+export type ResizeJob = {
+  protocol: number;
+  image: string; // file name inside /work
+  dryRun: boolean;
+  verbose: boolean;
+} & ({ mode: "resize"; resize: ResizeSettings } | { mode: "zerofree" | "rollback" | "inspect" });
+
+export type JobMode = ResizeJob["mode"];
+
+/** Outcome the worker writes back to /work/.result.json. */
+export type JobResult = {
+  protocol: number;
+  mode?: JobMode; // absent when the job file could not be read
+  ok: boolean;
+  error?: { code: ErrorCode; message: string };
+  layout?: { table: SfdiskTable; imageBytes: number }; // after a resize or rollback
+  plan?: ResizePlan; // dry-run resize
+  probe?: InspectProbe;
+};
+
+const MODES: JobMode[] = ["resize", "zerofree", "rollback", "inspect"];
+
+type Fields = Record<string, unknown>;
+
+function isObject(v: unknown): v is Fields {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isMode(v: unknown): v is JobMode {
+  return MODES.some((m) => m === v);
+}
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((p) => typeof p === "string");
+}
+
+function check(ok: boolean, field: string, what: string): asserts ok {
+  if (!ok) throw new WorkerError("INVALID_CONFIG", `Job field ${field} must be ${what}`);
+}
+
+function flag(s: Fields, key: string, field = key): boolean {
+  const v = s[key];
+  check(typeof v === "boolean", field, "true or false");
+  return v;
+}
+
+function optionalSize(s: Fields, key: "imageSize" | "headroom"): string | undefined {
+  const v = s[key];
+  check(v === undefined || (typeof v === "string" && v !== ""), `resize.${key}`, "a size string");
+  return v;
+}
+
+function checkSettings(s: unknown): ResizeSettings {
+  check(isObject(s), "resize", "an object");
+  const { bootSizeMB, addPartitions } = s;
+  check(typeof bootSizeMB === "number" && Number.isFinite(bootSizeMB) && bootSizeMB > 0, "resize.bootSizeMB", "a positive number");
+  const imageSize = optionalSize(s, "imageSize");
+  const headroom = optionalSize(s, "headroom");
+  const [shrinkToMin, unsafeResizeExt4, expandOnBoot, zeroFree, addFstab, verifyFs, resume] =
+    (["shrinkToMin", "unsafeResizeExt4", "expandOnBoot", "zeroFree", "addFstab", "verifyFs", "resume"] as const).map((key) => flag(s, key, `resize.${key}`));
+  check(isStringList(addPartitions), "resize.addPartitions", "a list of strings");
+  return {
+    bootSizeMB, imageSize, shrinkToMin, headroom, unsafeResizeExt4, expandOnBoot, zeroFree,
+    addPartitions, addFstab, verifyFs, resume,
+  };
+}
+
+/**
+ * Validate a job file. The protocol is checked before anything else, so a
+ * job from a CLI of another version is reported as such rather than as
+ * whichever field happens to differ.
+ */
+export function parseResizeJob(text: string): ResizeJob {
+  let job: unknown;
+  try {
+    job = JSON.parse(text);
+  } catch (e) {
+    throw new WorkerError("INVALID_CONFIG", `Job file is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  check(isObject(job), "job", "an object");
+  if (job.protocol !== JOB_PROTOCOL) {
+    throw new WorkerError(
+      "INCOMPATIBLE_JOB",
+      `Job protocol ${job.protocol ?? "(none)"} is not supported by this worker (protocol ${JOB_PROTOCOL}); rebuild the worker image for this CLI`,
+    );
+  }
+  const { mode, image } = job;
+  check(isMode(mode), "mode", MODES.join(", "));
+  check(typeof image === "string" && image !== "" && !image.includes("/"), "image", "a file name in the work directory");
+  const base = { protocol: JOB_PROTOCOL, image, dryRun: flag(job, "dryRun"), verbose: flag(job, "verbose") };
+  return mode === "resize" ? { ...base, mode, resize: checkSettings(job.resize) } : { ...base, mode };
+}
+
+/** Summarise a run from the events the worker reported. */
+export function buildJobResult(mode: JobMode | undefined, events: WorkerEvent[]): JobResult {
+  const error = findEvent(events, "error");
+  const layout = findEvent(events, "layout");
+  return {
+    protocol: JOB_PROTOCOL,
+    mode,
+    ok: !error,
+    error: error && { code: error.code, message: error.message },
+    layout: layout && { table: layout.table, imageBytes: layout.imageBytes },
+    plan: findEvent(events, "plan")?.plan,
+    probe: findEvent(events, "inspect")?.probe,
+  };
+}
@@ -0,0 +1,232 @@
+import { cpSync, existsSync, lstatSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import type { FsIdentity } from "./bootrefs";
+import type { Ext4Params } from "./ext4";
+import type { PlanOperation, ResizePlan } from "./plan";
+import type { PartitionMove } from "./sfdisk";
+
+export const JOURNAL_VERSION = 1;
+
+/** Directory kept next to an image while a resize of it is unfinished. */
+export function journalDir(imagePath: string): string {
+  return `${imagePath}.journal`;
+}
+
+export type JournalData = {
+  version: number;
+  image: string;
+  startedAt: string;
+  imageBytes: number; // image size before the resize
+  rootFs?: { blocks: number; blockSize: number }; // root ext4 size before the resize
+  plan: ResizePlan; // plan.before is the original table
+  identities: { boot: FsIdentity; root: FsIdentity }; // as referenced by cmdline.txt and fstab before the resize
+  settings: { addFstab: boolean; expandOnBoot: boolean; zeroFree: boolean };
+  done: string[]; // finished steps: op:<index> for plan operations, then the named finishing steps
+  current?: string; // step begun but not finished when the worker stopped
+  movedRoot?: Ext4Params; // root superblock moved by e2image, until a table write finds it again
+  rootFiles: { path: string; existed: boolean }[]; // root filesystem paths changed; originals under root/
+  undone: number; // rollback steps finished, when a rollback itself was interrupted
+  undoing?: number; // rollback step begun but not finished
+};
+
+export type JournalStart = Omit<JournalData, "version" | "done" | "rootFiles" | "undone">;
+
+/**
+ * On-disk record of a resize in progress: the plan, the original table and
+ * every step as it starts and finishes. Written atomically after each change,
+ * so an interrupted worker leaves enough behind to resume or roll back.
+ */
+export class Journal {
+  private constructor(readonly dir: string, readonly data: JournalData) {}
+
+  static exists(imagePath: string): boolean {
+    return existsSync(`${journalDir(imagePath)}/journal.json`);
+  }
+
+  static create(imagePath: string, start: JournalStart): Journal {
+    if (Journal.exists(imagePath)) {
+      throw new Error(`${start.image} has the journal of an unfinished resize; resume or roll it back first`);
+    }
+    const dir = journalDir(imagePath);
+    mkdirSync(dir, { recursive: true });
+    const journal = new Journal(dir, { version: JOURNAL_VERSION, ...start, done: [], rootFiles: [], undone: 0 });
+    journal.save();
+    return journal;
+  }
+
+  static load(imagePath: string): Journal {
+    const dir = journalDir(imagePath);
+    if (!Journal.exists(imagePath)) throw new Error(`No resize journal found at ${dir}`);
+    const data = JSON.parse(readFileSync(`${dir}/journal.json`, "utf8")) as JournalData;
+    if (data.version !== JOURNAL_VERSION) {
+      throw new Error(`Journal version ${data.version} is not supported (expected ${JOURNAL_VERSION})`);
+    }
+    return new Journal(dir, data);
+  }
+
+  /** Raw copy of the original boot partition. */
+  get bootBackup(): string {
+    return `${this.dir}/boot.img`;
+  }
+
+  isDone(step: string): boolean {
+    return this.data.done.includes(step);
+  }
+
+  /** Run `fn` once across resumes: skipped when already done, recorded as current while it runs. */
+  async step(name: string, fn: () => Promise<void>): Promise<void> {
+    if (this.isDone(name)) return;
+    this.data.current = name;
+    this.save();
+    await fn();
+    this.data.done.push(name);
+    this.data.current = undefined;
+    this.save();
+  }
+
+  /** Keep the original of `path` inside the filesystem mounted at `root` before it is changed. */
+  preserve(root: string, path: string): void {
+    if (this.data.rootFiles.some((f) => f.path === path)) return;
+    let existed = true;
+    try {
+      // Directories are only ever created, never changed; a missing one is removed again
+      if (!lstatSync(`${root}${path}`).isDirectory()) cpSync(`${root}${path}`, `${this.dir}/root${path}`, { verbatimSymlinks: true });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+      existed = false;
+    }
+    this.data.rootFiles.push({ path, existed });
+    this.save();
+  }
+
+  /** Put back every root file saved by preserve(). */
+  restoreRootFiles(root: string): void {
+    for (const f of [...this.data.rootFiles].reverse()) {
+      const saved = `${this.dir}/root${f.path}`;
+      if (!f.existed) rmSync(`${root}${f.path}`, { recursive: true, force: true });
+      else if (lstatSync(saved, { throwIfNoEntry: false })) {
+        rmSync(`${root}${f.path}`, { force: true });
+        cpSync(saved, `${root}${f.path}`, { verbatimSymlinks: true });
+      }
+    }
+  }
+
+  /** Run rollback step `index` once across interrupted rollbacks. */
+  async undo(index: number, fn: () => Promise<void>): Promise<void> {
+    if (index < this.data.undone) return;
+    this.data.undoing = index;
+    this.save();
+    await fn();
+    this.data.undone = index + 1;
+    this.data.undoing = undefined;
+    this.save();
+  }
+
+  remove(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private save(): void {
+    const file = `${this.dir}/journal.json`;
+    writeFileSync(`${file}.tmp`, JSON.stringify(this.data, null, 2));
+    renameSync(`${file}.tmp`, file);
+  }
+}
+
+/** How to take back one finished (or safely interrupted) step of a resize. */
+export type UndoOperation =
+  | { op: "restore-root-files" }
+  | Extract<PlanOperation, { op: "write-table" | "resize-image" }>
+  | { op: "move-back"; move: PartitionMove; fs: boolean } // raw copy from move.from to move.to
+  | { op: "resize-fs"; partition: number; blocks: number }
+  | { op: "restore-boot-image"; partition: number; start: number };
+
+// A raw move stopped midway has overwritten part of its source, so it can be
+// neither repeated nor reversed. resize2fs leaves a filesystem e2fsck can
+// repair, and every other step can simply run again.
+function interruptedMove(data: JournalData): PartitionMove | undefined {
+  const m = data.current?.match(/^op:(\d+)$/);
+  const op = m ? data.plan.operations[Number(m[1])] : undefined;
+  return op?.op === "move-fs" || op?.op === "move-partition" ? op.move : undefined;
+}
+
+/** Throws when the interrupted step of a journal cannot be run again. */
+export function assertResumable(data: JournalData): void {
+  const move = interruptedMove(data);
+  if (move) {
+    throw new Error(`The resize stopped while moving p${move.number}; it cannot be resumed or rolled back, restore the image from its backup copy`);
+  }
+}
+
+/**
+ * Steps that return the image to its original layout and contents, newest
+ * first: each finished plan operation (and the interrupted one, when that is
+ * safe) is reversed against the state it started from.
+ */
+export function planRollback(data: JournalData): UndoOperation[] {
+  assertResumable(data);
+  const { plan } = data;
+  const undo: UndoOperation[] = [];
+  let table = plan.before;
+  let bytes = data.imageBytes;
+  let blocks = data.rootFs?.blocks;
+  const blockSize = data.rootFs?.blockSize ?? 4096;
+  const fsBlocks = (partition: number) => {
+    if (blocks === undefined) throw new Error(`No original size recorded for the filesystem on p${partition}`);
+    return blocks;
+  };
+  plan.operations.forEach((op, i) => {
+    if (!data.done.includes(`op:${i}`) && data.current !== `op:${i}`) return;
+    switch (op.op) {
+      case "resize-image":
+        undo.push({ op: "resize-image", bytes });
+        bytes = op.bytes;
+        return;
+      case "backup-boot": {
+        if (!data.done.includes(`op:${i}`)) return; // an incomplete copy; boot is still untouched
+        const boot = plan.before.partitions.find((p) => p.number === op.partition)!;
+        undo.push({ op: "restore-boot-image", partition: op.partition, start: boot.start });
+        return;
+      }
+      case "shrink-fs":
+        undo.push({ op: "resize-fs", partition: op.partition, blocks: fsBlocks(op.partition) });
+        blocks = Math.floor((op.sizeMB * 1024 * 1024) / blockSize);
+        return;
+      case "grow-fs": {
+        undo.push({ op: "resize-fs", partition: op.partition, blocks: fsBlocks(op.partition) });
+        const p = table.partitions.find((q) => q.number === op.partition)!;
+        blocks = Math.floor((p.size * 512) / blockSize);
+        return;
+      }
+      case "move-partition":
+      case "move-fs":
+        undo.push({ op: "move-back", move: { ...op.move, from: op.move.to, to: op.move.from }, fs: op.op === "move-fs" });
+        return;
+      case "write-table":
+        undo.push({ op: "write-table", table, reason: `undo ${op.reason}` });
+        table = op.table;
+        return;
+      // Formatting and restoring boot files are undone by the raw boot copy;
+      // added partitions lie beyond the original image
+      case "format-boot":
+      case "restore-boot":
+      case "format-partition":
+        return;
+    }
+  });
+  undo.reverse();
+  if (data.rootFiles.length > 0) undo.unshift({ op: "restore-root-files" });
+  // sfdisk put the backup GPT at the end of the image as it was then
+  if (undo.some((u) => u.op === "resize-image")) undo.push({ op: "write-table", table: plan.before, reason: "original layout" });
+  return undo;
+}
+
+export function describeUndo(u: UndoOperation): string {
+  switch (u.op) {
+    case "restore-root-files": return "Restore files changed in the root filesystem";
+    case "resize-image": return `Resize image file back to ${u.bytes} bytes`;
+    case "move-back": return `Move p${u.move.number}${u.fs ? " filesystem" : ""} back from sector ${u.move.from} to ${u.move.to}`;
+    case "write-table": return `Write partition table (${u.reason})`;
+    case "resize-fs": return `Resize filesystem on p${u.partition} back to ${u.blocks} blocks`;
+    case "restore-boot-image": return `Restore original boot partition p${u.partition}`;
+  }
+}
@@ -0,0 +1,89 @@
+import type { ResizeJob } from "./job";
+import { parsePartitionSpec, type NewFsType } from "./partspec";
+
+// Attaching the image, mapping its partitions and releasing both again
+const ATTACH_TOOLS = ["losetup", "kpartx", "partprobe", "blkid"];
+const MOUNT_TOOLS = ["mount", "umount"];
+// A layout change may back up, reformat, move and grow boot and root whatever the image holds
+const LAYOUT_TOOLS = [
+  "blockdev", "sfdisk", "e2fsck", "resize2fs", "dumpe2fs", "e2image", "mkfs.vfat", "rsync", "dd", "sync", "touch",
+];
+const ZERO_TOOLS = ["sfdisk", "e2fsck", "zerofree", "dd", "sync"];
+const MKFS_TOOLS: Record<NewFsType, string> = { ext4: "mkfs.ext4", vfat: "mkfs.vfat", swap: "mkswap" };
+
+/**
+ * Linux tools the worker will call for `job`; all of them ship in the worker
+ * image. A resumed resize takes its settings from the journal, so it needs
+ * whatever any setting could ask for.
+ */
+export function nativeTools(job: ResizeJob): string[] {
+  const tools: string[] = [];
+  switch (job.mode) {
+    case "inspect":
+      tools.push(...ATTACH_TOOLS, ...MOUNT_TOOLS, "df");
+      break;
+    case "zerofree":
+      if (!job.dryRun) tools.push(...ATTACH_TOOLS, ...MOUNT_TOOLS, ...ZERO_TOOLS);
+      break;
+    case "rollback":
+      // The journal decides which steps are undone
+      if (!job.dryRun) tools.push(...ATTACH_TOOLS, ...MOUNT_TOOLS, ...LAYOUT_TOOLS, "truncate");
+      break;
+    case "resize": {
+      const r = job.resize;
+      tools.push(...ATTACH_TOOLS);
+      if (job.dryRun) {
+        if (r.shrinkToMin) tools.push("resize2fs", "dumpe2fs");
+        break;
+      }
+      tools.push(...MOUNT_TOOLS, ...LAYOUT_TOOLS);
+      // Added partitions grow the image when no size is given
+      if (r.resume || r.imageSize || r.shrinkToMin || r.addPartitions.length > 0) tools.push("truncate");
+      const fsTypes = r.resume ? Object.keys(MKFS_TOOLS) as NewFsType[] : r.addPartitions.map((s) => parsePartitionSpec(s).fsType);
+      tools.push(...fsTypes.map((t) => MKFS_TOOLS[t]));
+      if (r.resume || r.zeroFree) tools.push(...ZERO_TOOLS);
+      break;
+    }
+  }
+  return [...new Set(tools)];
+}
+
+export type NativeHost = {
+  platform: string;
+  uid?: number;
+  which: (tool: string) => string | null;
+};
+
+function currentHost(): NativeHost {
+  return { platform: process.platform, uid: process.getuid?.(), which: (tool) => Bun.which(tool) };
+}
+
+/**
+ * Why `job` cannot run directly on this host, or undefined when it can:
+ * loop devices need Linux and root, and every tool it calls must be on PATH.
+ */
+export function nativeUnavailable(job: ResizeJob, host: NativeHost = currentHost()): string | undefined {
+  if (host.platform !== "linux") return `native mode needs Linux (this is ${host.platform})`;
+  if (host.uid !== 0) return "native mode needs root to attach loop devices";
+  const missing = nativeTools(job).filter((tool) => !host.which(tool));
+  if (missing.length > 0) return `native mode needs ${missing.join(", ")} on PATH`;
+  return undefined;
+}
+
+/**
+ * Whether `job` runs in this process rather than a container. `--native`
+ * insists (and fails with the reason it cannot); without it a capable Linux
+ * host is used unless a container runtime was named.
+ */
+export function chooseNative(
+  job: ResizeJob,
+  opts: { native: boolean; runtime?: string },
+  host: NativeHost = currentHost(),
+): boolean {
+  const blocker = nativeUnavailable(job, host);
+  if (opts.native) {
+    if (blocker) throw new Error(`--native: ${blocker}`);
+    return true;
+  }
+  return !opts.runtime && !blocker;
+}
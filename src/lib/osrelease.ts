@@ -0,0 +1,12 @@
+export type OsRelease = Record<string, string>;
+
+/** Parse /etc/os-release (KEY=value, values optionally quoted). */
+export function parseOsRelease(text: string): OsRelease {
+  const out: OsRelease = {};
+  for (const line of text.split("\n")) {
+    const m = line.trim().match(/^([A-Z0-9_]+)=(.*)$/);
+    if (!m) continue;
+    out[m[1]] = m[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return out;
+}
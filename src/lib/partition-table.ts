@@ -0,0 +1,247 @@
+import { closeSync, fstatSync, openSync, readSync } from "fs";
+import { isExtended, type SfdiskPartition, type SfdiskTable } from "./sfdisk";
+
+// Reads MBR and GPT partition tables straight from image bytes, so layouts can
+// be inspected and planned without loop devices or root. Tables use the same
+// model as parseSfdiskDump so either source can feed the same code.
+
+export const SECTOR_SIZE = 512;
+
+const GPT_SIGNATURE = "EFI PART";
+const GPT_HEADER_SIZE = 92;
+const GPT_ENTRY_SIZE = 128;
+const MBR_PROTECTIVE = 0xee;
+
+// GPT attribute bits with the names sfdisk prints for them; bits 48-63 are GUID:n
+const GPT_ATTR_NAMES: Record<number, string> = { 0: "RequiredPartition", 1: "NoBlockIOProtocol", 2: "LegacyBIOSBootable" };
+
+/** Reads `count` sectors starting at `lba`; short reads past the end are zero-filled. */
+export type SectorReader = (lba: number, count: number) => Uint8Array;
+
+export type ImagePartitionTable = {
+  table: SfdiskTable;
+  totalSectors: number;
+  warnings: string[]; // e.g. a corrupt primary GPT header recovered from the backup
+};
+
+let crcTable: Uint32Array | undefined;
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// GUIDs are stored mixed-endian: the first three fields little endian, the rest as bytes
+function decodeGuid(b: Uint8Array, off: number): string {
+  const hex = (i: number) => b[off + i].toString(16).padStart(2, "0");
+  const le = (...idx: number[]) => idx.map(hex).join("");
+  return `${le(3, 2, 1, 0)}-${le(5, 4)}-${le(7, 6)}-${le(8, 9)}-${le(10, 11, 12, 13, 14, 15)}`.toUpperCase();
+}
+
+function isZero(b: Uint8Array, off: number, len: number): boolean {
+  for (let i = off; i < off + len; i++) if (b[i] !== 0) return false;
+  return true;
+}
+
+function decodeAttrs(bits: bigint): string | undefined {
+  const names: string[] = [];
+  const guidBits: number[] = [];
+  for (let i = 0; i < 64; i++) {
+    if (!((bits >> BigInt(i)) & 1n)) continue;
+    if (i >= 48) guidBits.push(i);
+    else names.push(GPT_ATTR_NAMES[i] ?? `${i}`);
+  }
+  if (guidBits.length) names.push(`GUID:${guidBits.join(",")}`);
+  return names.length ? names.join(" ") : undefined;
+}
+
+type MbrEntry = { status: number; type: number; start: number; size: number };
+
+function readMbrEntries(sector: Uint8Array): MbrEntry[] {
+  const dv = new DataView(sector.buffer, sector.byteOffset, sector.byteLength);
+  return [0, 1, 2, 3].map((i) => {
+    const off = 446 + i * 16;
+    return { status: sector[off], type: sector[off + 4], start: dv.getUint32(off + 8, true), size: dv.getUint32(off + 12, true) };
+  });
+}
+
+function hasBootSignature(sector: Uint8Array): boolean {
+  return sector[510] === 0x55 && sector[511] === 0xaa;
+}
+
+function readMbr(read: SectorReader, sector0: Uint8Array): SfdiskTable {
+  const dv = new DataView(sector0.buffer, sector0.byteOffset, sector0.byteLength);
+  const table: SfdiskTable = { label: "dos", sectorSize: SECTOR_SIZE, partitions: [] };
+  table.labelId = `0x${dv.getUint32(440, true).toString(16).padStart(8, "0")}`;
+  let extended: MbrEntry | undefined;
+  readMbrEntries(sector0).forEach((e, i) => {
+    if (e.type === 0 || e.size === 0) return;
+    const p: SfdiskPartition = { node: "", number: i + 1, start: e.start, size: e.size, type: e.type.toString(16) };
+    if (e.status === 0x80) p.bootable = true;
+    table.partitions.push(p);
+    if (isExtended(table, p) && !extended) extended = e;
+  });
+  if (extended) {
+    // Logical partitions: each EBR holds the logical (relative to the EBR) and a
+    // link to the next EBR (relative to the start of the extended partition)
+    let ebrLba = extended.start;
+    const seen = new Set<number>();
+    for (let number = 5; ; number++) {
+      if (seen.has(ebrLba)) throw new Error(`Extended partition chain loops at sector ${ebrLba}`);
+      seen.add(ebrLba);
+      const ebr = read(ebrLba, 1);
+      if (!hasBootSignature(ebr)) break;
+      const [logical, next] = readMbrEntries(ebr);
+      if (logical.type !== 0 && logical.size > 0) {
+        const p: SfdiskPartition = { node: "", number, start: ebrLba + logical.start, size: logical.size, type: logical.type.toString(16) };
+        if (logical.status === 0x80) p.bootable = true;
+        table.partitions.push(p);
+      }
+      if (next.type === 0 || next.start === 0) break;
+      ebrLba = extended.start + next.start;
+    }
+  }
+  return table;
+}
+
+type GptHeader = {
+  currentLba: number;
+  backupLba: number;
+  firstUsable: number;
+  lastUsable: number;
+  diskGuid: string;
+  entriesLba: number;
+  entryCount: number;
+  entrySize: number;
+  entriesCrc: number;
+};
+
+// Returns undefined (with a reason) instead of throwing so the backup can be tried
+function readGptHeader(read: SectorReader, lba: number): { header?: GptHeader; entries?: Uint8Array; error?: string } {
+  const s = read(lba, 1);
+  const dv = new DataView(s.buffer, s.byteOffset, s.byteLength);
+  if (new TextDecoder().decode(s.subarray(0, 8)) !== GPT_SIGNATURE) return { error: `no GPT signature at sector ${lba}` };
+  const size = dv.getUint32(12, true);
+  if (size < GPT_HEADER_SIZE || size > SECTOR_SIZE) return { error: `invalid GPT header size ${size} at sector ${lba}` };
+  const copy = s.slice(0, size);
+  new DataView(copy.buffer).setUint32(16, 0, true);
+  if (crc32(copy) !== dv.getUint32(16, true)) return { error: `GPT header CRC mismatch at sector ${lba}` };
+  const header: GptHeader = {
+    currentLba: Number(dv.getBigUint64(24, true)),
+    backupLba: Number(dv.getBigUint64(32, true)),
+    firstUsable: Number(dv.getBigUint64(40, true)),
+    lastUsable: Number(dv.getBigUint64(48, true)),
+    diskGuid: decodeGuid(s, 56),
+    entriesLba: Number(dv.getBigUint64(72, true)),
+    entryCount: dv.getUint32(80, true),
+    entrySize: dv.getUint32(84, true),
+    entriesCrc: dv.getUint32(88, true),
+  };
+  if (header.entrySize < GPT_ENTRY_SIZE || header.entrySize % 8 !== 0) return { error: `invalid GPT entry size ${header.entrySize}` };
+  const entryBytes = header.entryCount * header.entrySize;
+  const entries = read(header.entriesLba, Math.ceil(entryBytes / SECTOR_SIZE)).subarray(0, entryBytes);
+  if (crc32(entries) !== header.entriesCrc) return { error: `GPT partition entry CRC mismatch (header at sector ${lba})` };
+  return { header, entries };
+}
+
+function gptPartitions(header: GptHeader, entries: Uint8Array): SfdiskPartition[] {
+  const dv = new DataView(entries.buffer, entries.byteOffset, entries.byteLength);
+  const parts: SfdiskPartition[] = [];
+  for (let i = 0; i < header.entryCount; i++) {
+    const off = i * header.entrySize;
+    if (isZero(entries, off, 16)) continue;
+    const first = Number(dv.getBigUint64(off + 32, true));
+    const last = Number(dv.getBigUint64(off + 40, true));
+    const nameUnits: number[] = [];
+    for (let j = 0; j < 36; j++) {
+      const u = dv.getUint16(off + 56 + j * 2, true);
+      if (u === 0) break;
+      nameUnits.push(u);
+    }
+    const p: SfdiskPartition = {
+      node: "",
+      number: i + 1,
+      start: first,
+      size: last - first + 1,
+      type: decodeGuid(entries, off),
+      uuid: decodeGuid(entries, off + 16),
+    };
+    const name = String.fromCharCode(...nameUnits);
+    if (name) p.name = name;
+    const attrs = decodeAttrs(dv.getBigUint64(off + 48, true));
+    if (attrs) p.attrs = attrs;
+    parts.push(p);
+  }
+  return parts;
+}
+
+/**
+ * Read the partition table of a disk image. A protective MBR selects GPT; the
+ * primary GPT header and entries are CRC-checked and the backup at the last
+ * sector is used when they are damaged.
+ */
+export function readPartitionTable(read: SectorReader, totalSectors: number): ImagePartitionTable {
+  const sector0 = read(0, 1);
+  if (!hasBootSignature(sector0)) throw new Error("No MBR boot signature (0x55AA) in sector 0");
+  const warnings: string[] = [];
+  if (!readMbrEntries(sector0).some((e) => e.type === MBR_PROTECTIVE)) {
+    return { table: readMbr(read, sector0), totalSectors, warnings };
+  }
+  let res = readGptHeader(read, 1);
+  if (!res.header) {
+    warnings.push(`Primary GPT unusable (${res.error}); using backup header`);
+    const backup = readGptHeader(read, totalSectors - 1);
+    if (!backup.header) throw new Error(`No valid GPT header found (${res.error}; ${backup.error})`);
+    res = backup;
+  } else if (res.header.backupLba !== totalSectors - 1) {
+    warnings.push(`Backup GPT header is at sector ${res.header.backupLba}, not at the end of the disk (${totalSectors - 1})`);
+  } else if (!readGptHeader(read, res.header.backupLba).header) {
+    warnings.push("Backup GPT header is missing or damaged");
+  }
+  const header = res.header!;
+  const table: SfdiskTable = {
+    label: "gpt",
+    labelId: header.diskGuid,
+    firstLba: header.firstUsable,
+    lastLba: header.lastUsable,
+    sectorSize: SECTOR_SIZE,
+    tableLength: header.entryCount,
+    partitions: gptPartitions(header, res.entries!),
+  };
+  return { table, totalSectors, warnings };
+}
+
+/** SectorReader over an in-memory image (zero-filled past the end). */
+export function bufferReader(image: Uint8Array): SectorReader {
+  return (lba, count) => {
+    const out = new Uint8Array(count * SECTOR_SIZE);
+    const start = lba * SECTOR_SIZE;
+    if (start < image.length) out.set(image.subarray(start, Math.min(image.length, start + out.length)));
+    return out;
+  };
+}
+
+export function readImagePartitionTable(path: string): ImagePartitionTable {
+  const fd = openSync(path, "r");
+  try {
+    const totalSectors = Math.floor(fstatSync(fd).size / SECTOR_SIZE);
+    const read: SectorReader = (lba, count) => {
+      const out = new Uint8Array(count * SECTOR_SIZE);
+      readSync(fd, out, 0, out.length, lba * SECTOR_SIZE);
+      return out;
+    };
+    return readPartitionTable(read, totalSectors);
+  } finally {
+    closeSync(fd);
+  }
+}
+
@@ -0,0 +1,87 @@
+import { parseSize } from "./size";
+import type { PartitionLabel } from "./sfdisk";
+
+export type NewFsType = "ext4" | "vfat" | "swap";
+
+export type PartitionSpec = {
+  name: string; // mount point below / and GPT partition name
+  fsType: NewFsType;
+  sizeSectors: number; // rounded up to whole MiB
+  label: string; // filesystem label, defaults to name
+};
+
+// Filesystem label length limits (ext4 16 bytes, FAT 11 characters)
+const LABEL_MAX: Record<NewFsType, number> = { ext4: 16, vfat: 11, swap: 15 };
+
+const TYPE_IDS: Record<PartitionLabel, Record<NewFsType, string>> = {
+  dos: { ext4: "83", vfat: "c", swap: "82" },
+  gpt: {
+    ext4: "0FC63DAF-8483-4772-8E79-3D69D8477DE4",
+    vfat: "EBD0A0A2-B9E5-4433-87C0-68B6B72699C7",
+    swap: "0657FD6D-A4AB-43C4-84E5-0933C84B4F4F",
+  },
+};
+
+/**
+ * Parse an --add-partition value: name:fstype:size[:label],
+ * e.g. data:ext4:4GB or scratch:vfat:512MB:SCRATCH.
+ */
+export function parsePartitionSpec(spec: string): PartitionSpec {
+  const parts = spec.split(":");
+  if (parts.length < 3 || parts.length > 4) {
+    throw new Error(`Invalid partition spec '${spec}' (expected name:fstype:size[:label])`);
+  }
+  const [name, fsType, size, label = name] = parts;
+  if (!/^[A-Za-z0-9][A-Za-z0-9_-]*$/.test(name)) throw new Error(`Invalid partition name '${name}'`);
+  if (fsType !== "ext4" && fsType !== "vfat" && fsType !== "swap") {
+    throw new Error(`Unsupported filesystem '${fsType}' for partition ${name} (use ext4, vfat or swap)`);
+  }
+  let bytes: number;
+  try {
+    bytes = parseSize(size);
+  } catch {
+    throw new Error(`Invalid size '${size}' for partition ${name}`);
+  }
+  if (bytes < 1024 * 1024) throw new Error(`Partition ${name} must be at least 1MB`);
+  if (!label || label.length > LABEL_MAX[fsType] || /[\s,]/.test(label)) {
+    throw new Error(`Invalid label '${label}' for ${fsType} partition ${name} (max ${LABEL_MAX[fsType]} characters, no spaces or commas)`);
+  }
+  return { name, fsType, sizeSectors: Math.ceil(bytes / (1024 * 1024)) * 2048, label };
+}
+
+export function partitionTypeId(label: PartitionLabel, fsType: NewFsType): string {
+  return TYPE_IDS[label][fsType];
+}
+
+export function buildMkfsArgs(spec: PartitionSpec, dev: string): string[] {
+  switch (spec.fsType) {
+    case "ext4": return ["mkfs.ext4", "-F", "-L", spec.label, dev];
+    case "vfat": return ["mkfs.vfat", "-F", "32", "-n", spec.label.toUpperCase(), dev];
+    case "swap": return ["mkswap", "-L", spec.label, dev];
+  }
+}
+
+export function fstabEntry(spec: PartitionSpec, uuid: string): string {
+  switch (spec.fsType) {
+    case "ext4": return `UUID=${uuid}  /${spec.name}  ext4  defaults,noatime  0  2`;
+    case "vfat": return `UUID=${uuid}  /${spec.name}  vfat  defaults  0  2`;
+    case "swap": return `UUID=${uuid}  none  swap  sw  0  0`;
+  }
+}
+
+/**
+ * Append entries to /etc/fstab text, skipping any whose mount point (or, for
+ * swap, device) is already listed so repeated runs do not duplicate lines.
+ */
+export function appendFstabEntries(text: string, entries: string[]): { text: string; added: string[] } {
+  const existing = text.split("\n")
+    .filter((l) => l.trim() && !l.trim().startsWith("#"))
+    .map((l) => l.trim().split(/\s+/));
+  const added = entries.filter((e) => {
+    const [dev, mnt] = e.split(/\s+/);
+    return !existing.some((f) => (mnt === "none" ? f[0] === dev : f[1] === mnt));
+  });
+  if (added.length === 0) return { text, added };
+  const base = text === "" || text.endsWith("\n") ? text : `${text}\n`;
+  return { text: base + added.join("\n") + "\n", added };
+}
@@ -0,0 +1,68 @@
+import type { DeviceInfo } from "./devices";
+
+export type PickerIO = {
+  interactive: boolean; // a person is at a terminal to answer
+  write(s: string): unknown;
+  /** Resolves with the typed line, or "" on end of input. */
+  ask(question: string): Promise<string>;
+};
+
+// Card capacities are sold in decimal gigabytes
+function decimalSize(bytes: number): string {
+  return bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.round(bytes / 1e6)} MB`;
+}
+
+function formatVolume(v: DeviceInfo["volumes"][number]): string {
+  const id = v.id.replace(/^\/dev\//, "");
+  return [id, v.name, v.fstype && `(${v.fstype})`].filter(Boolean).join(" ");
+}
+
+/** Two lines per device: identity and size, then its current volumes. */
+export function formatDeviceInfo(d: DeviceInfo): string {
+  const identity = [d.vendor, d.model].filter(Boolean).join(" ");
+  const head = [
+    d.disk,
+    decimalSize(d.sizeBytes),
+    identity,
+    d.mediaName && `media "${d.mediaName}"`,
+    d.piCard ? "[Raspberry Pi card]" : "",
+  ].filter(Boolean).join("  ");
+  const volumes = d.volumes.length ? d.volumes.map(formatVolume).join(", ") : "no partitions";
+  return `${head}\n     ${volumes}`;
+}
+
+/**
+ * Let the user choose one of `candidates` by number. Nothing is chosen on
+ * their behalf: without a terminal the candidates are listed in the error so
+ * the right one can be passed with --device.
+ */
+export async function pickDevice(candidates: DeviceInfo[], io: PickerIO): Promise<string> {
+  const listing = candidates.map((d, i) => `  ${i + 1}) ${formatDeviceInfo(d)}`).join("\n");
+  if (!io.interactive) {
+    const count = candidates.length === 1 ? "1 candidate" : `${candidates.length} candidates`;
+    throw new Error(`Not choosing a device without a terminal (${count}); pass --device with one of:\n${listing}`);
+  }
+  io.write(`Removable devices:\n${listing}\n`);
+  for (;;) {
+    const answer = (await io.ask(`Select a device [1-${candidates.length}] or q to abort: `)).trim();
+    if (answer === "" || answer.toLowerCase() === "q") throw new Error("No device selected");
+    const n = Number(answer);
+    if (Number.isInteger(n) && n >= 1 && n <= candidates.length) return candidates[n - 1].disk;
+    io.write(`Not one of the listed devices: ${answer}\n`);
+  }
+}
+
+/**
+ * Show what is about to be overwritten and require the disk's name (sdb,
+ * disk4) to be typed back. A yes/no prompt is too easy to answer by reflex.
+ */
+export async function confirmOverwrite(device: DeviceInfo, io: PickerIO): Promise<void> {
+  const token = device.disk.replace(/^\/dev\//, "");
+  if (!io.interactive) {
+    throw new Error(`Not overwriting ${device.disk} without confirmation; pass --yes together with --device ${device.disk} to skip it`);
+  }
+  io.write(`About to overwrite:\n  ${formatDeviceInfo(device)}\n`);
+  io.write(device.volumes.length ? "All of these volumes will be destroyed.\n" : "Everything on this device will be destroyed.\n");
+  const answer = (await io.ask(`Type ${token} to continue: `)).trim();
+  if (answer !== token) throw new Error(`Confirmation did not match ${token}; nothing was written`);
+}
@@ -0,0 +1,308 @@
+import { findEvent, type WorkerEvent } from "./events";
+import { columns } from "./inspect";
+import { journalDir } from "./journal";
+import { buildMkfsArgs, partitionTypeId, type PartitionSpec } from "./partspec";
+import { addPartitionsAtEnd, compactFollowing, growLimit, partitionEnd, renderSfdiskTable, shiftFollowing, withGeometry, type PartitionMove, type SfdiskPartition, type SfdiskTable } from "./sfdisk";
+
+/** The image as found: its table and which partitions hold boot and root. */
+export type ResizeLayout = {
+  table: SfdiskTable;
+  bootNum: number;
+  rootNum: number;
+  bootLabel?: string; // kept when the boot filesystem is recreated
+};
+
+export type ResizeOptions = {
+  bootSizeMB: number;
+  imageSizeBytes?: number; // IMAGE_SIZE; the image may only grow for added partitions when unset
+  shrinkToMinSectors?: number; // SHRINK_TO_MIN target for root: filesystem minimum plus headroom, whole MiB
+  addPartitions?: PartitionSpec[];
+  unsafeResizeExt4?: boolean;
+};
+
+/** One step of a resize, in the order the worker runs them. */
+export type PlanOperation =
+  | { op: "resize-image"; bytes: number }
+  | { op: "backup-boot"; partition: number }
+  | { op: "shrink-fs"; partition: number; sizeMB: number }
+  | { op: "move-partition"; move: PartitionMove }
+  | { op: "move-fs"; move: PartitionMove }
+  | { op: "write-table"; table: SfdiskTable; reason: string }
+  | { op: "format-boot"; partition: number; label?: string }
+  | { op: "restore-boot"; partition: number }
+  | { op: "format-partition"; partition: number; spec: PartitionSpec }
+  | { op: "grow-fs"; partition: number };
+
+export type ResizePlan = {
+  before: SfdiskTable;
+  after: SfdiskTable;
+  imageBytes: { before: number; after: number };
+  bootNum: number;
+  rootNum: number;
+  root: { moves: boolean; shrinks: boolean; grows: boolean };
+  added: { number: number; spec: PartitionSpec }[];
+  operations: PlanOperation[];
+};
+
+const MB_SECTORS = 2048;
+
+function find(table: SfdiskTable, number: number): SfdiskPartition {
+  const p = table.partitions.find((q) => q.number === number);
+  if (!p) throw new Error(`Partition ${number} not found`);
+  return p;
+}
+
+/**
+ * Work out every layout change of a resize from the current table and disk
+ * size alone: image size, root move or shrink, boot resize, partitions added
+ * and the final root grow or shrink. Throws when the request cannot fit.
+ */
+export function planResize(current: ResizeLayout, diskSectors: number, options: ResizeOptions): ResizePlan {
+  const { bootNum, rootNum } = current;
+  const boot = find(current.table, bootNum);
+  const root = find(current.table, rootNum);
+  const ops: PlanOperation[] = [];
+  const added: ResizePlan["added"] = [];
+  let sectors = diskSectors;
+
+  // Image size first, so everything below sees the final disk
+  let imageShrunk = false;
+  const targetBytes = options.imageSizeBytes;
+  if (targetBytes !== undefined && targetBytes !== diskSectors * 512) {
+    if (targetBytes < diskSectors * 512) {
+      const lastEnd = Math.max(...current.table.partitions.map(partitionEnd));
+      const minBytes = (lastEnd + 20480) * 512; // +10MB
+      if (targetBytes < minBytes) {
+        throw new Error(`Cannot shrink image below ${Math.floor(minBytes / 1024 / 1024)}MB (partition boundary + safety)`);
+      }
+      imageShrunk = true;
+    }
+    ops.push({ op: "resize-image", bytes: targetBytes });
+    sectors = Math.floor(targetBytes / 512);
+  }
+
+  ops.push({ op: "backup-boot", partition: bootNum });
+
+  // Where boot ends and whether root has to make way
+  const bootSizeSectors = (options.bootSizeMB * 1024 * 1024) / 512 | 0;
+  const bootNewEnd = boot.start + bootSizeSectors - 1;
+  if (bootNewEnd > sectors - 1) throw new Error(`Boot partition of ${options.bootSizeMB}MB does not fit in the image`);
+  const moveRoot = bootNewEnd >= root.start;
+  // Only root is moved out of the way of a larger boot partition
+  for (const p of current.table.partitions) {
+    if (p.number === bootNum || p.number === rootNum) continue;
+    if (p.start > boot.start && p.start <= bootNewEnd) {
+      throw new Error(`Partition ${p.number} lies within the enlarged boot partition; cannot grow boot to ${options.bootSizeMB}MB`);
+    }
+  }
+
+  let table = current.table;
+  let shrinkRoot = false;
+  let rootStart = root.start;
+  let rootEnd = partitionEnd(root);
+  let shifts: PartitionMove[] = [];
+  if (moveRoot) {
+    rootStart = Math.ceil((bootNewEnd + MB_SECTORS) / MB_SECTORS) * MB_SECTORS; // 1MB aligned
+    rootEnd = rootStart + root.size - 1;
+    const maxEnd = sectors - 1;
+    const rootLimit = growLimit(current.table, root, maxEnd);
+    if (rootEnd > rootLimit) {
+      // Partitions behind root are pushed back when the image has room for them,
+      // otherwise root is shrunk to fit in front of the next one
+      const shifted = shiftFollowing(current.table, root, rootEnd);
+      const shiftedEnd = Math.max(...shifted.table.partitions.map(partitionEnd));
+      if (shifted.moves.length > 0 && shiftedEnd <= maxEnd - MB_SECTORS) {
+        table = shifted.table;
+        shifts = shifted.moves;
+      } else if (shifted.moves.length > 0) {
+        shrinkRoot = true;
+        rootEnd = rootLimit;
+        if (rootEnd <= rootStart) throw new Error(`No room to move root partition in front of partition ${shifted.moves[shifted.moves.length - 1].number}`);
+      } else {
+        shrinkRoot = true;
+        rootEnd = maxEnd - 100 * MB_SECTORS; // 100MB buffer
+        if (rootEnd <= rootStart) throw new Error(`Image too small to move root partition behind a ${options.bootSizeMB}MB boot partition`);
+      }
+    }
+  }
+
+  // Shrink root in place first, then move it (and anything behind it)
+  const rootSize = rootEnd - rootStart + 1;
+  if (shrinkRoot) {
+    ops.push({ op: "shrink-fs", partition: rootNum, sizeMB: Math.floor(rootSize * 512 / 1024 / 1024) });
+    ops.push({ op: "write-table", table: withGeometry(current.table, rootNum, root.start, rootSize), reason: "shrink root in place" });
+  }
+  if (moveRoot) {
+    for (const move of shifts) ops.push({ op: "move-partition", move });
+    ops.push({ op: "move-fs", move: { number: rootNum, from: root.start, to: rootStart, size: rootSize } });
+    table = withGeometry(table, rootNum, rootStart, rootSize);
+    ops.push({ op: "write-table", table, reason: "move root" });
+  }
+
+  // New boot size, fresh FAT32, files restored
+  table = withGeometry(table, bootNum, boot.start, bootSizeSectors);
+  ops.push({ op: "write-table", table, reason: "resize boot" });
+  ops.push({ op: "format-boot", partition: bootNum, ...(current.bootLabel ? { label: current.bootLabel } : {}) });
+  ops.push({ op: "restore-boot", partition: bootNum });
+
+  // New partitions claim the end of the image; it grows to fit unless IMAGE_SIZE fixed it
+  const addAtEnd = (t: SfdiskTable, canGrowImage: boolean): SfdiskTable => {
+    const specs = options.addPartitions ?? [];
+    const parts = specs.map((s) => ({ size: s.sizeSectors, type: partitionTypeId(t.label, s.fsType), name: s.name }));
+    const lastEnd = Math.max(...t.partitions.map(partitionEnd));
+    // 1MB-aligned start after the last partition, plus the 1MB tail buffer kept elsewhere
+    const needed = Math.ceil((lastEnd + 1) / MB_SECTORS) * MB_SECTORS + parts.reduce((n, p) => n + p.size, 0) + MB_SECTORS;
+    if (sectors < needed) {
+      const shortMB = Math.ceil((needed - sectors) / MB_SECTORS);
+      if (!canGrowImage) throw new Error(`Image is ${shortMB}MB too small for the added partitions; increase IMAGE_SIZE`);
+      ops.push({ op: "resize-image", bytes: needed * 512 });
+      sectors = needed;
+    }
+    const next = addPartitionsAtEnd(t, parts, sectors - MB_SECTORS - 1);
+    ops.push({ op: "write-table", table: next.table, reason: "add partitions" });
+    next.added.forEach((p, i) => {
+      added.push({ number: p.number, spec: specs[i] });
+      ops.push({ op: "format-partition", partition: p.number, spec: specs[i] });
+    });
+    return next.table;
+  };
+
+  // Root takes what is left
+  const shrinkToMin = options.shrinkToMinSectors;
+  const adding = (options.addPartitions ?? []).length > 0;
+  if (adding && shrinkToMin === undefined) table = addAtEnd(table, targetBytes === undefined);
+  const r = find(table, rootNum);
+  // Leave a 1MB buffer at the end of the disk; a partition behind root bounds it instead
+  const maxRootSize = growLimit(table, r, sectors - MB_SECTORS - 1) - r.start + 1;
+  let grows = false;
+  let finalShrink = false;
+  if (shrinkToMin !== undefined) {
+    if (shrinkToMin < r.size) {
+      finalShrink = true;
+      ops.push({ op: "shrink-fs", partition: rootNum, sizeMB: Math.ceil(shrinkToMin / MB_SECTORS) });
+      table = withGeometry(table, rootNum, r.start, shrinkToMin);
+      ops.push({ op: "write-table", table, reason: "shrink root to minimum" });
+    }
+    // Close the gap behind root so the image can end right after the last partition
+    const compacted = compactFollowing(table, find(table, rootNum));
+    if (compacted.moves.length > 0) {
+      for (const move of compacted.moves) ops.push({ op: "move-partition", move });
+      table = compacted.table;
+      ops.push({ op: "write-table", table, reason: "close gaps behind root" });
+    }
+    // GPT needs room for its backup table after the last partition
+    const gptTail = table.label === "gpt" ? 33 : 0;
+    sectors = Math.max(...table.partitions.map(partitionEnd)) + 1 + gptTail;
+    ops.push({ op: "resize-image", bytes: sectors * 512 });
+    if (gptTail) ops.push({ op: "write-table", table, reason: "relocate backup GPT" });
+    if (adding) table = addAtEnd(table, true);
+  } else if (imageShrunk && maxRootSize < r.size) {
+    finalShrink = true;
+    ops.push({ op: "shrink-fs", partition: rootNum, sizeMB: Math.floor(maxRootSize * 512 / 1024 / 1024) });
+    table = withGeometry(table, rootNum, r.start, maxRootSize);
+    ops.push({ op: "write-table", table, reason: "shrink root to fit image" });
+  } else if (maxRootSize > r.size) {
+    grows = true;
+    table = withGeometry(table, rootNum, r.start, maxRootSize);
+    ops.push({ op: "write-table", table, reason: "grow root" });
+    ops.push({ op: "grow-fs", partition: rootNum });
+  } else if (options.unsafeResizeExt4 && !moveRoot) {
+    ops.push({ op: "grow-fs", partition: rootNum });
+  }
+
+  return {
+    before: current.table,
+    after: table,
+    imageBytes: { before: diskSectors * 512, after: sectors * 512 },
+    bootNum,
+    rootNum,
+    root: { moves: moveRoot, shrinks: shrinkRoot || finalShrink, grows },
+    added,
+    operations: ops,
+  };
+}
+
+function mb(sectors: number): string {
+  return `${(sectors / MB_SECTORS).toFixed(sectors % MB_SECTORS ? 1 : 0)}MB`;
+}
+
+export function describeOperation(op: PlanOperation): string {
+  switch (op.op) {
+    case "resize-image": return `Resize image file to ${mb(op.bytes / 512)}`;
+    case "backup-boot": return `Back up boot partition p${op.partition} to the journal`;
+    case "shrink-fs": return `Shrink root filesystem on p${op.partition} to ${op.sizeMB}MB`;
+    case "move-partition": return `Move p${op.move.number} from sector ${op.move.from} to ${op.move.to} (${mb(op.move.size)})`;
+    case "move-fs": return `Move root filesystem p${op.move.number} from sector ${op.move.from} to ${op.move.to}`;
+    case "write-table": return `Write partition table (${op.reason})`;
+    case "format-boot": return `Create FAT32 filesystem on p${op.partition}${op.label ? ` with label '${op.label}'` : ""}`;
+    case "restore-boot": return `Restore boot files to p${op.partition}`;
+    case "format-partition": return `Format p${op.partition} (${op.spec.name}) as ${op.spec.fsType}`;
+    case "grow-fs": return `Grow root filesystem on p${op.partition} to fill its partition`;
+  }
+}
+
+/** Shell equivalent of an operation; `loop` stands in for the loop device. */
+export function operationCommands(op: PlanOperation, image: string, loop = "<loop>"): string[] {
+  const dev = (n: number) => `${loop}p${n}`;
+  switch (op.op) {
+    case "resize-image": return [`truncate -s ${op.bytes} ${image}`];
+    case "backup-boot": return [`dd if=${dev(op.partition)} of=${journalDir(image)}/boot.img bs=4M conv=fsync`];
+    case "shrink-fs": return [`e2fsck -f -y ${dev(op.partition)}`, `resize2fs ${dev(op.partition)} ${op.sizeMB}M`];
+    case "move-partition": {
+      const order = op.move.to > op.move.from ? "back to front" : "front to back";
+      return [`dd if=${loop} of=${loop} bs=64M skip=${op.move.from * 512} seek=${op.move.to * 512} count=${op.move.size * 512} iflag=skip_bytes,count_bytes oflag=seek_bytes conv=notrunc  # 64MB chunks, ${order}`];
+    }
+    case "move-fs": return [`e2fsck -f -y ${dev(op.move.number)}`, `e2image -ra -p -o ${op.move.from * 512} -O ${op.move.to * 512} ${loop}`];
+    case "write-table": return [`sfdisk --force --no-reread ${loop} <<EOF\n${renderSfdiskTable(op.table, loop)}EOF`];
+    case "format-boot": return [["mkfs.vfat", "-F", "32", ...(op.label ? ["-n", op.label] : []), dev(op.partition)].join(" ")];
+    case "restore-boot": return [
+      `mount -o ro,loop ${journalDir(image)}/boot.img /mnt/boot-backup`,
+      `mount ${dev(op.partition)} /mnt/boot`,
+      "rsync -a /mnt/boot-backup/ /mnt/boot/",
+      "umount /mnt/boot /mnt/boot-backup",
+    ];
+    case "format-partition": return [buildMkfsArgs(op.spec, dev(op.partition)).join(" ")];
+    case "grow-fs": return [`e2fsck -f -y ${dev(op.partition)}`, `resize2fs ${dev(op.partition)}`];
+  }
+}
+
+export function formatResizePlan(plan: ResizePlan, image: string): string {
+  const lines: string[] = [];
+  lines.push(`Resize plan for ${image} (${plan.before.label})`);
+  lines.push(`Image size: ${mb(plan.imageBytes.before / 512)} -> ${mb(plan.imageBytes.after / 512)}`);
+  lines.push("");
+  const rows = [["#", "Role", "Start", "End", "Size", "->", "Start", "End", "Size", "Change"]];
+  const numbers = [...new Set([...plan.before.partitions, ...plan.after.partitions].map((p) => p.number))].sort((a, b) => a - b);
+  for (const n of numbers) {
+    const b = plan.before.partitions.find((p) => p.number === n);
+    const a = plan.after.partitions.find((p) => p.number === n);
+    const role = n === plan.bootNum ? "boot" : n === plan.rootNum ? "root" : plan.added.some((x) => x.number === n) ? "new" : "-";
+    const geometry = (p?: SfdiskPartition) => (p ? [String(p.start), String(partitionEnd(p)), mb(p.size)] : ["-", "-", "-"]);
+    const change: string[] = [];
+    if (!b) change.push("added");
+    else if (a && a.start !== b.start) change.push("moved");
+    if (a && b && a.size > b.size) change.push("grown");
+    if (a && b && a.size < b.size) change.push("shrunk");
+    rows.push([String(n), role, ...geometry(b), "->", ...geometry(a), change.join(", ") || "unchanged"]);
+  }
+  lines.push(...columns(rows));
+  lines.push("");
+  const rootActions = [plan.root.moves && "moves", plan.root.shrinks && "shrinks", plan.root.grows && "grows"].filter(Boolean);
+  lines.push(`Root: ${rootActions.length ? rootActions.join(", ") : "unchanged"}`);
+  lines.push("");
+  lines.push("Operations:");
+  plan.operations.forEach((op, i) => {
+    lines.push(`  ${i + 1}. ${describeOperation(op)}`);
+    for (const cmd of operationCommands(op, image)) {
+      // Heredoc bodies are shown as they would be typed, without the prompt
+      cmd.split("\n").forEach((l, j) => lines.push(`       ${j === 0 ? "$ " : "  "}${l}`.trimEnd()));
+    }
+  });
+  return lines.join("\n");
+}
+
+export function extractResizePlan(events: WorkerEvent[]): ResizePlan {
+  const e = findEvent(events, "plan");
+  if (!e) throw new Error("Worker did not report a resize plan");
+  return e.plan;
+}
@@ -0,0 +1,68 @@
+import type { WorkerEvent } from "./events";
+
+export type ProgressOutput = { write(s: string): unknown; isTTY?: boolean };
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function bar(percent: number, width = 24): string {
+  const filled = Math.round((percent / 100) * width);
+  return `[${"#".repeat(filled)}${"-".repeat(width - filled)}] ${String(percent).padStart(3)}%`;
+}
+
+/**
+ * Human rendering of worker events: one line per finished step, and on a
+ * terminal a live line for the running step with its progress bar. Info logs
+ * are shown only when verbose; warnings, summaries and errors always.
+ */
+export class ProgressRenderer {
+  private current?: { id: string; title: string; percent?: number };
+
+  constructor(private out: ProgressOutput, private verbose = false) {}
+
+  handle(e: WorkerEvent): void {
+    switch (e.type) {
+      case "step-start":
+        this.current = { id: e.id, title: e.title };
+        if (this.out.isTTY) this.redraw();
+        else this.out.write(`▸ ${e.id} ${e.title}\n`);
+        return;
+      case "progress":
+        if (!this.current || !this.out.isTTY) return;
+        this.current.percent = e.percent;
+        this.redraw();
+        return;
+      case "step-end": {
+        const title = this.current?.id === e.id ? this.current.title : e.id;
+        this.clear();
+        this.current = undefined;
+        this.out.write(`${e.ok ? "✓" : "✗"} ${e.id} ${title} (${seconds(e.ms)})\n`);
+        return;
+      }
+      case "log":
+        if (e.level === "info" && !this.verbose) return;
+        this.clear();
+        this.out.write(`[${e.level.toUpperCase()}] ${e.message}\n`);
+        this.redraw();
+        return;
+      case "error":
+        this.clear();
+        this.out.write(`[ERROR] ${e.code}: ${e.message}\n`);
+        this.redraw();
+        return;
+      default:
+        return;
+    }
+  }
+
+  private clear(): void {
+    if (this.out.isTTY && this.current) this.out.write("\r\x1b[K");
+  }
+
+  private redraw(): void {
+    if (!this.out.isTTY || !this.current) return;
+    const { id, title, percent } = this.current;
+    this.out.write(`\r\x1b[K▸ ${id} ${title}${percent === undefined ? "" : ` ${bar(percent)}`}`);
+  }
+}
@@ -0,0 +1,90 @@
+import { mkdirSync } from "fs";
+import type { Executor } from "./executor";
+
+type Resource = { id: number; label: string; release: () => Promise<void> };
+
+/**
+ * Loop devices, partition mappings and mounts acquired by the worker. They are
+ * released in reverse order of acquisition; a release that fails is reported
+ * and the rest still run, so one busy mount does not leave its loop device
+ * attached in the (shared) Docker VM.
+ */
+export class ResourceRegistry {
+  private stack: Resource[] = [];
+  private nextId = 1;
+  private unwinding?: Promise<string[]>;
+
+  constructor(private warn: (msg: string) => void = () => {}) {}
+
+  add(label: string, release: () => Promise<void>): number {
+    const id = this.nextId++;
+    this.stack.push({ id, label, release });
+    return id;
+  }
+
+  /** Labels of the resources still held, oldest first. */
+  held(): string[] {
+    return this.stack.map((r) => r.label);
+  }
+
+  /** Release one resource early, e.g. unmount once its files are copied. */
+  async release(id: number): Promise<void> {
+    const i = this.stack.findIndex((r) => r.id === id);
+    if (i < 0) return;
+    const [r] = this.stack.splice(i, 1);
+    await r.release();
+  }
+
+  /**
+   * Release everything still held, newest first. Safe to call more than once
+   * (e.g. from a signal handler while the failure path is unwinding); returns
+   * the labels of the resources that could not be released.
+   */
+  unwind(): Promise<string[]> {
+    this.unwinding ??= (async () => {
+      const failed: string[] = [];
+      while (this.stack.length > 0) {
+        const r = this.stack.pop()!;
+        try {
+          await r.release();
+        } catch (e) {
+          failed.push(r.label);
+          this.warn(`Failed to release ${r.label}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      this.unwinding = undefined;
+      return failed;
+    })();
+    return this.unwinding;
+  }
+}
+
+async function mustSucceed(exe: Executor, cmd: string[]) {
+  const res = await exe.run(cmd, { allowNonZeroExit: true });
+  if (res.code !== 0) throw new Error(`${cmd.join(" ")} exited with ${res.code}${res.stderr ? `: ${res.stderr.trim()}` : ""}`);
+}
+
+/**
+ * Attach an image as a loop device with partition scanning. Mappings from
+ * kpartx can be (re)created at any point while the loop is attached, so their
+ * removal is registered together with it and runs first.
+ */
+export async function attachLoop(exe: Executor, reg: ResourceRegistry, imagePath: string, readOnly = false): Promise<string> {
+  const loop = (await exe.run(["losetup", "-f", "--show", ...(readOnly ? ["-r"] : []), "-P", imagePath])).stdout.trim();
+  reg.add(`loop device ${loop}`, () => mustSucceed(exe, ["losetup", "-d", loop]));
+  reg.add(`partition mappings of ${loop}`, () => mustSucceed(exe, ["kpartx", "-d", loop]));
+  return loop;
+}
+
+/**
+ * Mount `dev` at `dir` (created if needed). Returns the registry id to release
+ * it with; a busy mount is detached lazily rather than left behind.
+ */
+export async function mountAt(exe: Executor, reg: ResourceRegistry, dev: string, dir: string, options?: string): Promise<number> {
+  mkdirSync(dir, { recursive: true });
+  await exe.run(["mount", ...(options ? ["-o", options] : []), dev, dir]);
+  return reg.add(`mount ${dir}`, async () => {
+    const res = await exe.run(["umount", dir], { allowNonZeroExit: true });
+    if (res.code !== 0) await mustSucceed(exe, ["umount", "-l", dir]);
+  });
+}
@@ -0,0 +1,105 @@
+import type { Executor } from "./executor";
+
+export const RUNTIME_NAMES = ["docker", "podman", "nerdctl"] as const;
+export type RuntimeName = (typeof RUNTIME_NAMES)[number];
+
+/**
+ * A container CLI able to build the worker image and run it with access to
+ * loop devices. The worker attaches loop devices and device-mapper partitions
+ * after the container has started, so each runtime needs its own flags for
+ * those nodes to show up inside it.
+ */
+export interface ContainerRuntime {
+  readonly name: RuntimeName;
+  /** Full command line for one runtime subcommand. */
+  command(...args: string[]): string[];
+  /** Flags for `run` that give the worker loop devices, device-mapper and mounts. */
+  privilegedFlags(): string[];
+  /** Go template printing the image id and one label from `image inspect`. */
+  idAndLabelFormat(label: string): string;
+  /** Throws when this runtime cannot run the worker as configured. */
+  preflight(exe: Executor): Promise<void>;
+}
+
+class DockerRuntime implements ContainerRuntime {
+  readonly name: RuntimeName = "docker";
+
+  command(...args: string[]): string[] {
+    return [this.name, ...args];
+  }
+
+  privilegedFlags(): string[] {
+    return ["--privileged"];
+  }
+
+  idAndLabelFormat(label: string): string {
+    return `{{.Id}} {{index .Config.Labels "${label}"}}`;
+  }
+
+  async preflight(_exe: Executor): Promise<void> {}
+}
+
+class PodmanRuntime extends DockerRuntime {
+  readonly name: RuntimeName = "podman";
+
+  // label=disable: SELinux hosts would otherwise deny the worker its /work bind mount.
+  // /dev is bound so partition nodes created after start are visible.
+  privilegedFlags(): string[] {
+    return ["--privileged", "--security-opt", "label=disable", "-v", "/dev:/dev"];
+  }
+
+  idAndLabelFormat(label: string): string {
+    return `{{.Id}} {{index .Labels "${label}"}}`;
+  }
+
+  // Rootless Podman maps root to an unprivileged user, which cannot create loop devices
+  async preflight(exe: Executor): Promise<void> {
+    const res = await exe.run(this.command("info", "--format", "{{.Host.Security.Rootless}}"), { allowNonZeroExit: true });
+    if (res.code === 0 && res.stdout.trim() === "true") {
+      throw new Error("Podman is running rootless, which cannot attach loop devices; switch to a rootful machine (podman machine set --rootful) or run as root");
+    }
+  }
+}
+
+class NerdctlRuntime extends DockerRuntime {
+  readonly name: RuntimeName = "nerdctl";
+
+  // As with Podman, partition nodes created after start only appear through a /dev bind
+  privilegedFlags(): string[] {
+    return ["--privileged", "-v", "/dev:/dev"];
+  }
+}
+
+export function createRuntime(name: string): ContainerRuntime {
+  switch (name) {
+    case "docker": return new DockerRuntime();
+    case "podman": return new PodmanRuntime();
+    case "nerdctl": return new NerdctlRuntime();
+    default: throw new Error(`Unknown container runtime: ${name} (expected ${RUNTIME_NAMES.join(", ")})`);
+  }
+}
+
+/**
+ * The runtime named by `--runtime` or RPI_TOOL_RUNTIME, or else the first of
+ * docker, podman and nerdctl whose client can reach its engine.
+ */
+export async function detectRuntime(exe: Executor, requested?: string): Promise<ContainerRuntime> {
+  if (requested) {
+    const runtime = createRuntime(requested);
+    await runtime.preflight(exe);
+    return runtime;
+  }
+  for (const name of RUNTIME_NAMES) {
+    const runtime = createRuntime(name);
+    let res;
+    try {
+      res = await exe.run(runtime.command("version"), { allowNonZeroExit: true });
+    } catch {
+      continue; // not installed
+    }
+    if (res.code !== 0) continue;
+    await runtime.preflight(exe);
+    return runtime;
+  }
+  throw new Error(`No container runtime found; install and start one of ${RUNTIME_NAMES.join(", ")}, or pick one with --runtime`);
+}
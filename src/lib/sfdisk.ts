@@ -0,0 +1,286 @@
+export type PartitionLabel = "dos" | "gpt";
+
+export type SfdiskPartition = {
+  node: string; // device node as printed by sfdisk (e.g. /dev/loop0p2)
+  number: number; // partition number parsed from the node suffix
+  start: number; // sectors
+  size: number; // sectors
+  type?: string; // MBR hex id (c, 83) or GPT type GUID
+  uuid?: string; // GPT partition GUID
+  name?: string; // GPT partition name
+  attrs?: string; // GPT attribute flags
+  bootable?: boolean; // MBR active flag
+};
+
+export type SfdiskTable = {
+  label: PartitionLabel;
+  labelId?: string; // MBR disk identifier (0x...) or GPT disk GUID
+  device?: string;
+  firstLba?: number;
+  lastLba?: number;
+  sectorSize?: number;
+  tableLength?: number;
+  partitions: SfdiskPartition[];
+};
+
+export function partitionEnd(p: { start: number; size: number }): number {
+  return p.start + p.size - 1;
+}
+
+export function partitionNumber(node: string): number {
+  const m = node.match(/(\d+)$/);
+  if (!m) throw new Error(`Cannot determine partition number from ${node}`);
+  return Number(m[1]);
+}
+
+// Split "start=1, size=2, name=\"a, b\"" on commas outside double quotes
+function splitFields(s: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (const ch of s) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === "," && !quoted) { out.push(cur.trim()); cur = ""; continue; }
+    cur += ch;
+  }
+  if (cur.trim()) out.push(cur.trim());
+  return out;
+}
+
+function unquote(v: string): string {
+  return v.startsWith('"') && v.endsWith('"') ? v.slice(1, -1) : v;
+}
+
+/**
+ * Parse the script format printed by `sfdisk -d` (both dos and gpt labels).
+ * Unknown header keys and partition fields are ignored.
+ */
+export function parseSfdiskDump(dump: string): SfdiskTable {
+  const table: SfdiskTable = { label: "dos", partitions: [] };
+  for (const raw of dump.split("\n")) {
+    const line = raw.trim();
+    if (!line) continue;
+    const part = line.match(/^(\S+)\s*:\s*(.*)$/);
+    if (part && part[1].startsWith("/")) {
+      const p: SfdiskPartition = { node: part[1], number: partitionNumber(part[1]), start: 0, size: 0 };
+      for (const field of splitFields(part[2])) {
+        const eq = field.indexOf("=");
+        const key = (eq >= 0 ? field.slice(0, eq) : field).trim();
+        const val = eq >= 0 ? unquote(field.slice(eq + 1).trim()) : "";
+        switch (key) {
+          case "start": p.start = Number(val); break;
+          case "size": p.size = Number(val); break;
+          case "type": p.type = val; break;
+          case "uuid": p.uuid = val; break;
+          case "name": p.name = val; break;
+          case "attrs": p.attrs = val; break;
+          case "bootable": p.bootable = true; break;
+        }
+      }
+      table.partitions.push(p);
+      continue;
+    }
+    const header = line.match(/^([a-z-]+):\s*(.*)$/);
+    if (!header) continue;
+    const [, key, val] = header;
+    switch (key) {
+      case "label":
+        if (val !== "dos" && val !== "gpt") throw new Error(`Unsupported partition table label: ${val}`);
+        table.label = val;
+        break;
+      case "label-id": table.labelId = val; break;
+      case "device": table.device = val; break;
+      case "first-lba": table.firstLba = Number(val); break;
+      case "last-lba": table.lastLba = Number(val); break;
+      case "sector-size": table.sectorSize = Number(val); break;
+      case "table-length": table.tableLength = Number(val); break;
+    }
+  }
+  table.partitions.sort((a, b) => a.number - b.number);
+  return table;
+}
+
+/**
+ * Render a table back into sfdisk script input for `device`.
+ * For GPT, last-lba is omitted so sfdisk places the backup header at the
+ * current end of the device (the image may have been grown or truncated).
+ */
+export function renderSfdiskTable(table: SfdiskTable, device: string): string {
+  const lines: string[] = [`label: ${table.label}`];
+  if (table.labelId) lines.push(`label-id: ${table.labelId}`);
+  lines.push("unit: sectors");
+  if (table.label === "gpt") {
+    if (table.firstLba) lines.push(`first-lba: ${table.firstLba}`);
+    if (table.tableLength) lines.push(`table-length: ${table.tableLength}`);
+  }
+  if (table.sectorSize) lines.push(`sector-size: ${table.sectorSize}`);
+  lines.push("");
+  for (const p of table.partitions) {
+    const fields = [`start=${p.start}`, `size=${p.size}`];
+    if (p.type) fields.push(`type=${p.type}`);
+    if (table.label === "gpt") {
+      if (p.uuid) fields.push(`uuid=${p.uuid}`);
+      if (p.name) fields.push(`name="${p.name}"`);
+      if (p.attrs) fields.push(`attrs="${p.attrs}"`);
+    } else if (p.bootable) {
+      fields.push("bootable");
+    }
+    lines.push(`${device}p${p.number} : ${fields.join(", ")}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Throw if a rewritten table lost the disk identifier or a partition GUID.
+ * Raspberry Pi OS boots via root=PARTUUID=<label-id>-02 (MBR) or the GPT
+ * partition GUID, so either changing silently leaves an unbootable image.
+ */
+export function assertIdentifiersPreserved(before: SfdiskTable, after: SfdiskTable): void {
+  if (before.labelId && before.labelId.toLowerCase() !== (after.labelId ?? "").toLowerCase()) {
+    throw new Error(`Disk identifier changed from ${before.labelId} to ${after.labelId ?? "(none)"}`);
+  }
+  for (const p of before.partitions) {
+    if (!p.uuid) continue;
+    const q = after.partitions.find((x) => x.number === p.number);
+    if (q && p.uuid.toLowerCase() !== (q.uuid ?? "").toLowerCase()) {
+      throw new Error(`Partition ${p.number} GUID changed from ${p.uuid} to ${q.uuid ?? "(none)"}`);
+    }
+  }
+}
+
+// MBR type ids of extended partition containers (CHS, LBA and Linux variants)
+const EXTENDED_TYPES = new Set(["5", "f", "85"]);
+
+export function isExtended(table: SfdiskTable, p: SfdiskPartition): boolean {
+  return table.label === "dos" && EXTENDED_TYPES.has((p.type ?? "").toLowerCase());
+}
+
+export function isLogical(table: SfdiskTable, p: SfdiskPartition): boolean {
+  return table.label === "dos" && p.number >= 5;
+}
+
+export type PartitionRoles = { boot: SfdiskPartition; root: SfdiskPartition };
+
+/**
+ * Pick boot and root by filesystem rather than by index: boot is the first
+ * FAT partition on disk, root the first ext2/3/4 partition after it.
+ * `fsTypes` maps partition numbers to the blkid TYPE of their contents.
+ */
+export function findRoles(table: SfdiskTable, fsTypes: Record<number, string>): PartitionRoles {
+  const byStart = [...table.partitions].sort((a, b) => a.start - b.start);
+  const boot = byStart.find((p) => /^(vfat|msdos)$/.test(fsTypes[p.number] ?? ""));
+  if (!boot) throw new Error("No FAT boot partition found in partition table");
+  const root = byStart.find((p) => p.start > boot.start && /^ext[234]$/.test(fsTypes[p.number] ?? ""));
+  if (!root) throw new Error(`No ext4 root partition found after boot partition ${boot.number}`);
+  for (const p of [boot, root]) {
+    if (isLogical(table, p)) throw new Error(`Partition ${p.number} is a logical partition; boot and root must be primary partitions`);
+  }
+  return { boot, root };
+}
+
+/** Replace the geometry of partition `number`, keeping its other attributes. */
+export function withGeometry(table: SfdiskTable, number: number, start: number, size: number): SfdiskTable {
+  if (!table.partitions.some((p) => p.number === number)) throw new Error(`Partition ${number} not found`);
+  return {
+    ...table,
+    partitions: table.partitions.map((p) => (p.number === number ? { ...p, start, size } : p)),
+  };
+}
+
+/**
+ * Last sector `p` can extend to without running into a later partition;
+ * `diskEnd` bounds partitions that are last on disk.
+ */
+export function growLimit(table: SfdiskTable, p: SfdiskPartition, diskEnd: number): number {
+  let limit = diskEnd;
+  for (const q of table.partitions) {
+    if (q.number !== p.number && q.start > p.start) limit = Math.min(limit, q.start - 1);
+  }
+  return limit;
+}
+
+/** A block range to copy when a partition changes position (sectors). */
+export type PartitionMove = { number: number; from: number; to: number; size: number };
+
+// Top-level partitions starting after `anchor`; logical partitions are
+// carried inside their extended container and never moved on their own
+function following(table: SfdiskTable, anchor: SfdiskPartition): SfdiskPartition[] {
+  return table.partitions
+    .filter((p) => p.start > anchor.start && !isLogical(table, p))
+    .sort((a, b) => a.start - b.start);
+}
+
+function applyMoves(table: SfdiskTable, moves: PartitionMove[]): SfdiskTable {
+  const delta = (p: SfdiskPartition): number => {
+    const own = moves.find((m) => m.number === p.number);
+    if (own) return own.to - own.from;
+    if (!isLogical(table, p)) return 0;
+    const container = moves.find((m) => p.start >= m.from && partitionEnd(p) < m.from + m.size);
+    return container ? container.to - container.from : 0;
+  };
+  return { ...table, partitions: table.partitions.map((p) => ({ ...p, start: p.start + delta(p) })) };
+}
+
+/**
+ * Push the partitions following `anchor` to the right, by a 1MiB-aligned
+ * amount, so that `anchor` can end at `anchorEnd`. Gaps between them are
+ * kept. Moves are returned last-first, the order they must be copied in.
+ */
+export function shiftFollowing(table: SfdiskTable, anchor: SfdiskPartition, anchorEnd: number): { table: SfdiskTable; moves: PartitionMove[] } {
+  const rest = following(table, anchor);
+  if (rest.length === 0 || rest[0].start > anchorEnd) return { table, moves: [] };
+  const delta = Math.ceil((anchorEnd + 1 - rest[0].start) / 2048) * 2048;
+  const moves = rest.map((p) => ({ number: p.number, from: p.start, to: p.start + delta, size: p.size })).reverse();
+  return { table: applyMoves(table, moves), moves };
+}
+
+/**
+ * Pull the partitions following `anchor` to the left so each starts at the
+ * first 1MiB boundary after its predecessor. Moves are returned first-first,
+ * the order they must be copied in.
+ */
+export function compactFollowing(table: SfdiskTable, anchor: SfdiskPartition): { table: SfdiskTable; moves: PartitionMove[] } {
+  const moves: PartitionMove[] = [];
+  let prevEnd = partitionEnd(anchor);
+  for (const p of following(table, anchor)) {
+    const to = Math.ceil((prevEnd + 1) / 2048) * 2048;
+    if (to < p.start) moves.push({ number: p.number, from: p.start, to, size: p.size });
+    prevEnd = (to < p.start ? to : p.start) + p.size - 1;
+  }
+  return { table: applyMoves(table, moves), moves };
+}
+
+export type NewPartition = { size: number; type: string; name?: string };
+
+/**
+ * Place new partitions back to back at the end of the disk, the last one
+ * ending on a 1MiB boundary at or before `lastUsable`. MBR tables take free
+ * primary slots (1-4); GPT tables number on from the highest partition.
+ */
+export function addPartitionsAtEnd(table: SfdiskTable, parts: NewPartition[], lastUsable: number): { table: SfdiskTable; added: SfdiskPartition[] } {
+  const used = new Set(table.partitions.map((p) => p.number));
+  const numbers: number[] = [];
+  if (table.label === "dos") {
+    for (let n = 1; n <= 4 && numbers.length < parts.length; n++) if (!used.has(n)) numbers.push(n);
+    if (numbers.length < parts.length) throw new Error("No free primary partition slot left in MBR table (max 4)");
+  } else {
+    const max = Math.max(0, ...used);
+    for (let i = 1; i <= parts.length; i++) numbers.push(max + i);
+  }
+  const lastEnd = Math.max(0, ...table.partitions.map(partitionEnd));
+  const added: SfdiskPartition[] = [];
+  let cursor = Math.floor((lastUsable + 1) / 2048) * 2048;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const start = cursor - parts[i].size;
+    added.unshift({ node: "", number: numbers[i], start, size: parts[i].size, type: parts[i].type, ...(table.label === "gpt" && parts[i].name ? { name: parts[i].name } : {}) });
+    cursor = start;
+  }
+  if (cursor <= lastEnd) {
+    const needMB = Math.ceil((lastEnd + 1 - cursor) * 512 / 1024 / 1024);
+    throw new Error(`Not enough free space at the end of the image for new partitions (${needMB}MB short)`);
+  }
+  return {
+    table: { ...table, partitions: [...table.partitions, ...added].sort((a, b) => a.number - b.number) },
+    added,
+  };
+}
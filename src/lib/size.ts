@@ -0,0 +1,18 @@
+const UNITS = ["", "K", "M", "G", "T", "P"];
+
+/**
+ * Bytes in a size such as 256MB, 1.5G or 32GiB: powers of 1024 whichever
+ * suffix is used, rounded down to whole 512-byte sectors. Used for
+ * --image-size, --headroom, --max-device-size and --add-partition sizes alike.
+ */
+export function parseSize(s: string): number {
+  const m = s.trim().match(/^(\d+(?:\.\d+)?)(?:([KMGTP])i?)?B?$/i);
+  if (!m) throw new Error(`Invalid size: ${s} (expected e.g. 256MB, 1.5GB or 32GiB)`);
+  const bytes = Number(m[1]) * 1024 ** UNITS.indexOf((m[2] ?? "").toUpperCase());
+  return Math.floor(bytes / 512) * 512;
+}
+
+/** --image-size for a device of `deviceBytes`: 2% headroom, in whole MB as parseSize reads them. */
+export function recommendedImageSize(deviceBytes: number): string {
+  return `${Math.floor((deviceBytes * 0.98) / 1024 ** 2)}MB`;
+}
@@ -3,8 +3,9 @@
  * and validate resize operations. Replaces test-create-and-resize.sh
  */
 
-import { existsSync, unlinkSync, readdirSync } from "node:fs";
+import { existsSync, unlinkSync, readdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
+import { DEFAULT_RESIZE_SETTINGS, JOB_FILE, JOB_PROTOCOL, type ResizeJob } from "./lib/job";
 
 interface TestConfig {
   imageFile: string;
@@ -13,6 +14,7 @@ interface TestConfig {
   initialImageMB: number;
   targetImageMB?: number;
   freeTailMB: number;
+  labelType: "dos" | "gpt";
   verbose: boolean;
   snapshot: boolean;
 }
@@ -105,6 +107,7 @@ async function main(): Promise<void> {
       ? parseInt(process.env.TARGET_IMAGE_MB, 10)
       : undefined,
     freeTailMB: parseInt(process.env.FREE_TAIL_MB ?? "0", 10),
+    labelType: process.env.LABEL_TYPE === "gpt" ? "gpt" : "dos",
     verbose: process.env.VERBOSE === "1",
     snapshot: process.env.SNAPSHOT === "1",
   };
@@ -147,7 +150,8 @@ async function main(): Promise<void> {
     const bootStart = 8192;
     const bootEnd = bootStart + bootSizeSectors - 1;
     const rootStart = bootEnd + 1;
-    const rootEnd = sectorsTotal - 1 - freeTailSectors;
+    // GPT keeps a 33-sector backup header/table at the end of the disk
+    const rootEnd = sectorsTotal - 1 - freeTailSectors - (config.labelType === "gpt" ? 33 : 0);
     const rootSizeSectors = rootEnd - rootStart + 1;
 
     if (config.freeTailMB > 0) {
@@ -160,7 +164,15 @@ async function main(): Promise<void> {
       );
     }
 
-    const sfdiskLayout = `label: dos
+    const sfdiskLayout = config.labelType === "gpt"
+      ? `label: gpt
+unit: sectors
+
+${loopDevice}p1 : start=${bootStart}, size=${bootSizeSectors}, type=EBD0A0A2-B9E5-4433-87C0-68B6B72699C7, name="boot"
+${loopDevice}p2 : start=${rootStart}, size=${rootSizeSectors}, type=0FC63DAF-8483-4772-8E79-3D69D8477DE4, name="rootfs"
+`
+      : `label: dos
+label-id: 0x12345678
 unit: sectors
 
 ${loopDevice}p1 : start=${bootStart}, size=${bootSizeSectors}, type=c, bootable
@@ -270,6 +282,8 @@ ${loopDevice}p2 : start=${rootStart}, size=${rootSizeSectors}, type=83
     }
 
     log("Initial layout:");
+    const preDump = await run(["sfdisk", "-d", loopDevice2]);
+    await Bun.write("/work/ptdump-pre.txt", preDump.output);
     const fdiskResult = await run(["fdisk", "-l", loopDevice2]);
     if (config.verbose) {
       console.log(fdiskResult.output);
@@ -283,12 +297,23 @@ ${loopDevice}p2 : start=${rootStart}, size=${rootSizeSectors}, type=83
     await run(["kpartx", "-d", loopDevice2]);
     await run(["losetup", "-d", loopDevice2]);
 
-    process.env.IMAGE_FILE = config.imageFile;
-    process.env.BOOT_SIZE_MB = config.bootSizeMB.toString();
-    process.env.VERBOSE = config.verbose ? "1" : "0";
+    const job: ResizeJob = {
+      protocol: JOB_PROTOCOL,
+      mode: "resize",
+      image: config.imageFile,
+      dryRun: false,
+      verbose: config.verbose,
+      resize: {
+        ...DEFAULT_RESIZE_SETTINGS,
+        bootSizeMB: config.bootSizeMB,
+        imageSize: config.targetImageMB ? `${config.targetImageMB}MB` : undefined,
+        shrinkToMin: process.env.SHRINK_TO_MIN === "1",
+        headroom: process.env.HEADROOM || undefined,
+      },
+    };
+    writeFileSync(`/work/${JOB_FILE}`, JSON.stringify(job, null, 2));
 
     if (config.targetImageMB) {
-      process.env.IMAGE_SIZE = `${config.targetImageMB}MB`;
       log(
         `Running resize worker: image ${config.initialImageMB}MB→${config.targetImageMB}MB, boot ${config.initialBootMB}MB→${config.bootSizeMB}MB`
       );
@@ -298,12 +323,11 @@ ${loopDevice}p2 : start=${rootStart}, size=${rootSizeSectors}, type=83
       );
     }
 
-    // Spawn worker with explicit env to ensure IMAGE_SIZE is propagated
+    // The worker reads the job written above from /work
     const workerProc = Bun.spawn([
       "bun",
       "/usr/local/bin/resize-worker.js",
     ], {
-      env: { ...process.env },
       stdout: "pipe",
       stderr: "pipe",
     });
@@ -338,6 +362,8 @@ ${loopDevice}p2 : start=${rootStart}, size=${rootSizeSectors}, type=83
     const postRoot = `/dev/mapper/${postLoopBasename}p2`;
     const postBoot = `/dev/mapper/${postLoopBasename}p1`;
 
+    const postDump = await run(["sfdisk", "-d", postLoop]);
+    await Bun.write("/work/ptdump-post.txt", postDump.output);
     const postFdiskResult = await run(["fdisk", "-l", postLoop]);
     if (config.verbose) {
       console.log(postFdiskResult.output);
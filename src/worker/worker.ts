@@ -1,433 +1,786 @@
-import { BunExecutor, Executor } from "../lib/executor";
-import { existsSync, mkdirSync } from "fs";
+import { BunExecutor, Executor, type ExecOptions } from "../lib/executor";
+import { assertIdentifiersPreserved, findRoles, isExtended, partitionEnd, renderSfdiskTable, type PartitionMove, type SfdiskTable } from "../lib/sfdisk";
+import { identityChanged, parseBlkidExport, rewriteCmdline, rewriteFstab, type FsIdentity, type IdentityChange, type RefEdit } from "../lib/bootrefs";
+import { parseDumpe2fsHeader, parseResize2fsMinimum, type Ext4Params } from "../lib/ext4";
+import { addExpandToCmdline, detectExpandMechanism, EXPAND_SCRIPT, EXPAND_SCRIPT_PATH, EXPAND_UNIT, EXPAND_UNIT_LINK, EXPAND_UNIT_PATH, removeExpandFromCmdline } from "../lib/firstboot";
+import { parseOsRelease } from "../lib/osrelease";
+import { readImagePartitionTable } from "../lib/partition-table";
+import { appendFstabEntries, buildMkfsArgs, fstabEntry, parsePartitionSpec, type PartitionSpec } from "../lib/partspec";
+import { describeOperation, planResize, type PlanOperation, type ResizeOptions } from "../lib/plan";
+import { assertResumable, describeUndo, Journal, planRollback, type JournalData, type UndoOperation } from "../lib/journal";
+import { attachLoop, mountAt, ResourceRegistry } from "../lib/resources";
+import { parseSize } from "../lib/size";
+import { parseDfBytes, type FsProbe, type InspectProbe } from "../lib/inspect";
+import { lineSplitter, parseE2fsckProgress, parseE2imageProgress, parseRsyncProgress, WorkerError, type ErrorCode, type WorkerEvent } from "../lib/events";
+import { buildJobResult, JOB_FILE, parseResizeJob, RESULT_FILE, type JobMode, type ResizeJob, type ResizeSettings } from "../lib/job";
+import type { WorkerResult } from "../lib/docker";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmdirSync, rmSync, statSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 // TS version of resize-worker.sh, invoking Linux tools via Executor
-// Expects ENV: IMAGE_FILE, BOOT_SIZE_MB, IMAGE_SIZE, UNSAFE_RESIZE_EXT4, DRY_RUN, VERBOSE
+// Reads its job from /work/.job.json (ResizeJob, see lib/job.ts) and writes the outcome to /work/.result.json
+// stdout carries newline-delimited JSON events (see lib/events.ts); the last one is a layout or error event
+// dryRun reads the image through a read-only loop device and reports the resize plan instead of running it
+// Progress is journaled in <image>.journal; resize.resume continues an interrupted resize from it (settings included)
+// mode zerofree runs only the free-space zeroing on the image (no resize)
+// mode rollback undoes an interrupted resize of the image from its journal
+// mode inspect probes the filesystems of the image read-only and reports them in one inspect event
+// runNative runs the same job in the CLI's process on a Linux host (resize --native)
+
+// Container paths; runNative points them at the host directory and a temporary mount base
+let WORK = "/work";
+let MNT = "/mnt";
+
+// Events that make up the result file; logs and progress only matter live
+const REPORTED: WorkerEvent[] = [];
+let sink = (e: WorkerEvent) => console.log(JSON.stringify(e));
+const emit = (e: WorkerEvent) => {
+  if (e.type !== "log" && e.type !== "progress") REPORTED.push(e);
+  sink(e);
+};
+const INFO = (s: string) => emit({ type: "log", level: "info", message: s });
+const WARN = (s: string) => emit({ type: "log", level: "warn", message: s });
+const ERROR = (s: string) => emit({ type: "log", level: "error", message: s });
+const SUMMARY = (s: string) => emit({ type: "log", level: "summary", message: s });
+
+// Steps are sequential: starting one ends the one before it
+let openStep: { id: string; started: number } | undefined;
+function STEP(id: string, title: string) {
+  endStep(true);
+  openStep = { id, started: Date.now() };
+  emit({ type: "step-start", id, title });
+}
+function endStep(ok: boolean) {
+  if (!openStep) return;
+  emit({ type: "step-end", id: openStep.id, ok, ms: Date.now() - openStep.started });
+  openStep = undefined;
+}
 
-const env = (k: string, d?: string) => (process.env[k] ?? d ?? "");
-const INFO = (s: string) => console.log(`[INFO] ${s}`);
-const WARN = (s: string) => console.log(`[WARN] ${s}`);
-const ERROR = (s: string) => console.error(`[ERROR] ${s}`);
+// Rethrow failures of pure planning code under a code the host can act on
+function withCode<T>(code: ErrorCode, fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    throw e instanceof WorkerError ? e : new WorkerError(code, e instanceof Error ? e.message : String(e));
+  }
+}
 
-const DRY = env("DRY_RUN") === "1";
+// Everything attached or mounted below is recorded here and released on exit,
+// whether the mode succeeds, throws or is stopped with SIGTERM
+const RESOURCES = new ResourceRegistry(WARN);
 
-async function run(exe: Executor) {
-  const IMAGE_FILE = env("IMAGE_FILE");
-  if (!IMAGE_FILE) throw new Error("IMAGE_FILE not set");
-  const BOOT_SIZE_MB = Number(env("BOOT_SIZE_MB", "256"));
-  const IMAGE_SIZE = env("IMAGE_SIZE");
-  const UNSAFE = env("UNSAFE_RESIZE_EXT4") === "1";
-  const VERBOSE_ENV = env("VERBOSE");
-  const VERIFY_FS = env("VERIFY_FS") === "1";
+function readJob(): ResizeJob {
+  const file = `${WORK}/${JOB_FILE}`;
+  if (!existsSync(file)) throw new WorkerError("INVALID_CONFIG", `No job file at ${file}`);
+  return parseResizeJob(readFileSync(file, "utf8"));
+}
 
-  const imagePath = `/work/${IMAGE_FILE}`;
+function writeResult(mode: JobMode | undefined) {
+  try {
+    writeFileSync(`${WORK}/${RESULT_FILE}`, JSON.stringify(buildJobResult(mode, REPORTED), null, 2));
+  } catch (e) {
+    // The events on stdout still carry the outcome
+    console.error(`Unable to write ${RESULT_FILE}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
 
-  // validate file exists
+function imageInWork(job: ResizeJob): string {
+  const imagePath = `${WORK}/${job.image}`;
   if (!existsSync(imagePath)) {
-    throw new Error(`Image file not found: ${imagePath}`);
+    throw new WorkerError("IMAGE_NOT_FOUND", `Image file not found: ${imagePath}`);
   }
+  return imagePath;
+}
+
+async function run(exe: Executor, job: ResizeJob, resize: ResizeSettings) {
+  const IMAGE_FILE = job.image;
+  const DRY = job.dryRun;
+  const BOOT_SIZE_MB = resize.bootSizeMB;
+  const IMAGE_SIZE = resize.imageSize;
+  const UNSAFE = resize.unsafeResizeExt4;
+  const VERBOSE = job.verbose;
+  const VERIFY_FS = resize.verifyFs;
+  const SHRINK_TO_MIN = resize.shrinkToMin;
+  const HEADROOM = resize.headroom ?? "256MB";
+  const ADD_PARTITIONS = withCode("INVALID_CONFIG", () => resize.addPartitions.map(parsePartitionSpec));
+  const RESUME = resize.resume;
+
+  const imagePath = imageInWork(job);
 
   INFO("=== Raspberry Pi Image Resizer Worker ===");
   INFO(`Image file: ${IMAGE_FILE}`);
   INFO(`Target boot size: ${BOOT_SIZE_MB}MB`);
   if (IMAGE_SIZE) INFO(`Target image size: ${IMAGE_SIZE}`);
   if (UNSAFE) WARN("Unsafe ext4 resizing enabled");
+  if (SHRINK_TO_MIN) INFO(`Shrink to minimum enabled (headroom ${HEADROOM})`);
+  if (SHRINK_TO_MIN && IMAGE_SIZE) throw new WorkerError("INVALID_CONFIG", "shrinkToMin cannot be combined with imageSize");
+  for (const spec of ADD_PARTITIONS) {
+    INFO(`Partition to add: ${spec.name} (${spec.fsType}, ${spec.sizeSectors / 2048}MB, label ${spec.label})`);
+  }
   if (DRY) WARN("DRY RUN mode active");
-  if (VERBOSE_ENV === "") {
-    WARN("VERBOSE not set; defaulting to non-verbose output");
-  } else {
-    INFO(`Verbose mode: ${VERBOSE_ENV === "1" ? "enabled" : "disabled"}`);
-  }
-
-  // Step 0: Adjust image size if requested
-  let imageExpanded = false, imageShrunk = false;
-  if (IMAGE_SIZE) {
-    INFO("Step 0: Adjusting image file size...");
-    const { bytes: targetBytes, pretty: targetPretty } = parseSize(IMAGE_SIZE);
-    const currentBytes = Bun.file(imagePath).size;
-    if (targetBytes === currentBytes) {
-      INFO("Image already at target size");
-    } else if (targetBytes > currentBytes) {
-      const expMB = Math.floor((targetBytes - currentBytes) / (1024 * 1024));
-      INFO(`Expanding image by ${expMB}MB to ${targetPretty}...`);
-      if (!DRY) await exe.run(["truncate", "-s", String(targetBytes), imagePath]);
-      imageExpanded = true;
-    } else {
-      // shrink: validate against last partition end + safety margin
-      INFO("Shrinking image - validating partition boundaries...");
-      if (!DRY) {
-        const loop = (await exe.run(["losetup", "-f", "--show", imagePath])).stdout.trim();
-        const dump = await exe.run(["sfdisk", "-d", loop], { allowNonZeroExit: true });
-        await exe.run(["losetup", "-d", loop], { allowNonZeroExit: true });
-        let lastEnd = 0;
-        for (const line of dump.stdout.split("\n")) {
-          const m = line.match(/start=\s*(\d+).+size=\s*(\d+)/);
-          if (m) {
-            const start = Number(m[1]);
-            const size = Number(m[2]);
-            const end = start + size - 1;
-            if (end > lastEnd) lastEnd = end;
-          }
-        }
-        const minBytes = (lastEnd + 20480) * 512; // +10MB
-        if (targetBytes < minBytes) {
-          const minMB = Math.floor(minBytes / 1024 / 1024);
-          throw new Error(`Cannot shrink image below ${minMB}MB (partition boundary + safety)`);
-        }
-        await exe.run(["truncate", "-s", String(targetBytes), imagePath]);
-        imageShrunk = true;
-      }
-    }
+  if (RESUME) INFO("Resuming an interrupted resize; layout and settings come from its journal");
+  INFO(`Verbose mode: ${VERBOSE ? "enabled" : "disabled"}`);
+
+  const options: ResizeOptions = {
+    bootSizeMB: BOOT_SIZE_MB,
+    imageSizeBytes: IMAGE_SIZE ? withCode("INVALID_CONFIG", () => parseSize(IMAGE_SIZE)) : undefined,
+    addPartitions: ADD_PARTITIONS,
+    unsafeResizeExt4: UNSAFE,
+  };
+  if (DRY) {
+    await reportDryRunPlan(exe, imagePath, options, SHRINK_TO_MIN ? HEADROOM : undefined);
+    INFO("=== Dry run completed; image not modified ===");
+    return;
   }
 
   // Step 1: Attach loop, map partitions
-  INFO("Step 1: Attaching image as loop device...");
-  let loop = "/dev/loop0";
-  if (!DRY) {
-    loop = (await exe.run(["losetup", "-f", "--show", "-P", imagePath])).stdout.trim();
-    await exe.run(["partprobe", loop], { allowNonZeroExit: true });
-  }
-
-  // Step 2: Identify boot/root partitions
-  INFO("Step 2: Examining partition layout...");
-  let bootPart = `${loop}p1`;
-  let rootPart = `${loop}p2`;
-  // Capture existing boot filesystem label (if any) for later preservation
-  let bootLabel = "";
-  if (!DRY) {
-    const hasP1 = existsSync(`${loop}p1`);
-    if (!hasP1) {
-      await exe.run(["kpartx", "-av", loop], { allowNonZeroExit: true });
-      const base = loop.split("/").pop();
-      bootPart = `/dev/mapper/${base}p1`;
-      rootPart = `/dev/mapper/${base}p2`;
-    }
-    if (!existsSync(bootPart) || !existsSync(rootPart)) {
-      throw new Error(`Partition devices not found: ${bootPart}, ${rootPart}`);
-    }
-    // Attempt to read volume label using blkid; ignore errors
-    const labelRes = await exe.run(["blkid", "-s", "LABEL", "-o", "value", bootPart], { allowNonZeroExit: true });
-    bootLabel = labelRes.code === 0 ? labelRes.stdout.trim() : "";
-    if (bootLabel) INFO(`Detected existing boot label: '${bootLabel}'`);
-  }
-
-  // Step 3: Backup boot files
-  INFO("Step 3: Backing up boot partition files...");
-  if (!DRY) {
-    mkdirSync("/mnt/boot", { recursive: true });
-    mkdirSync("/boot-backup", { recursive: true });
-    await exe.run(["mount", bootPart, "/mnt/boot"]);
-    await exe.run(["rsync", "-a", "/mnt/boot/", "/boot-backup/"]);
-    await exe.run(["umount", "/mnt/boot"], { allowNonZeroExit: true });
-  }
-
-  // Step 4: Calculate new layout via sfdisk dump
-  INFO("Step 4: Calculating new partition layout...");
-  let ptdump = "";
-  if (!DRY) {
-    ptdump = (await exe.run(["sfdisk", "-d", loop], { allowNonZeroExit: true })).stdout;
-  }
-  const layout = parseSfdiskDump(ptdump, loop);
-  const bootSizeSectors = (BOOT_SIZE_MB * 1024 * 1024) / 512 | 0;
-  const bootNewEnd = layout.boot.start + bootSizeSectors - 1;
-  let needsRootMove = bootNewEnd >= layout.root.start;
-
-  // If move required, check ext4 and compute new positions
-  let rootNewStart = layout.root.start;
-  let rootNewEnd = layout.root.end;
-  let needsRootShrink = false;
-  if (!DRY && needsRootMove) {
-    // check filesystems
-    const blkidResult = await exe.run(["blkid", "-s", "TYPE", "-o", "value", rootPart], { allowNonZeroExit: true });
-    const rootFs = blkidResult.stdout.trim() || "unknown";
-    if (rootFs !== "ext4") throw new Error(`Root partition is not ext4 (detected ${rootFs})`);
-
-    rootNewStart = Math.ceil((bootNewEnd + 2048) / 2048) * 2048; // 1MB aligned
-    rootNewEnd = rootNewStart + (layout.root.end - layout.root.start);
-    // Determine total disk sectors from blockdev (layout dump may not include it)
-    const diskSectors = Number((await exe.run(["blockdev", "--getsz", loop])).stdout.trim());
-    const maxEnd = diskSectors > 0 ? (diskSectors - 1) : rootNewEnd;
-    if (rootNewEnd > maxEnd) {
-      needsRootShrink = true;
-      rootNewEnd = maxEnd - 100 * 1024 * 1024 / 512; // 100MB buffer
+  STEP("1", "Attach image as loop device");
+  const loop = await attachLoop(exe, RESOURCES, imagePath);
+  await exe.run(["partprobe", loop], { allowNonZeroExit: true });
+
+  const journal = RESUME
+    ? await reopenJournal(exe, loop, imagePath)
+    : await startJournal(exe, loop, imagePath, options, SHRINK_TO_MIN ? HEADROOM : undefined, { addFstab: resize.addFstab, expandOnBoot: resize.expandOnBoot, zeroFree: resize.zeroFree });
+  const { plan, identities, settings } = journal.data;
+  const { bootNum, rootNum } = plan;
+
+  // Step 4: Carry out the plan, recording each operation as it starts and finishes
+  INFO(`Applying ${plan.operations.length} layout operations`);
+  const ctx: PlanContext = { loop, imagePath, original: plan.before, rootNum, bootBackup: journal.bootBackup, movedRoot: journal.data.movedRoot };
+  for (const [i, op] of plan.operations.entries()) {
+    await journal.step(`op:${i}`, async () => {
+      STEP(`4.${i + 1}`, describeOperation(op));
+      await applyOperation(exe, ctx, op);
+      journal.data.movedRoot = ctx.movedRoot;
+    });
+  }
+  const bootPart = partDevice(loop, bootNum);
+  const rootPart = partDevice(loop, rootNum);
+  const added = plan.added.map((a) => ({ ...a, dev: partDevice(loop, a.number) }));
+
+  // Step 5: Point cmdline.txt and /etc/fstab at the (possibly) new identifiers
+  const refEdits: RefEdit[] = [];
+  await journal.step("references", async () => {
+    STEP("5", "Check boot references to partition identifiers");
+    const changes: IdentityChange[] = [
+      { before: identities.boot, after: await readIdentity(exe, bootPart, bootNum) },
+      { before: identities.root, after: await readIdentity(exe, rootPart, rootNum) },
+    ].filter(identityChanged);
+    if (changes.length === 0) {
+      INFO("Partition identifiers unchanged; no reference updates needed");
+    } else {
+      refEdits.push(...await fixupBootReferences(exe, journal, bootPart, rootPart, changes));
+      for (const e of refEdits) INFO(`Updated ${e.file}: ${e.from} -> ${e.to}`);
+      if (refEdits.length === 0) WARN("Identifiers changed but no references found in cmdline.txt or /etc/fstab");
     }
+  });
+
+  // Step 5b: Mount the added partitions from /etc/fstab
+  if (settings.addFstab && added.length > 0) {
+    await journal.step("fstab", async () => {
+      STEP("5b", "Add /etc/fstab entries for new partitions");
+      await addFstabEntries(exe, journal, rootPart, added);
+    });
   }
 
-  // Step 5: Shrink root if required
-  if (needsRootShrink && !DRY) {
-    INFO("Step 5: Shrinking root partition...");
-    const e2fsckResult = await exe.run(["e2fsck", "-f", "-y", rootPart], { allowNonZeroExit: true });
-    if (e2fsckResult.code > 2) {
-      ERROR(`e2fsck stdout: ${e2fsckResult.stdout}`);
-      ERROR(`e2fsck stderr: ${e2fsckResult.stderr}`);
-      throw new Error(`e2fsck failed with code ${e2fsckResult.code}`);
+  // Step 6: Final verification
+  STEP("6", "Final verification");
+  await exe.run(["blkid", bootPart, rootPart], { allowNonZeroExit: true });
+
+  // Optional final filesystem verification (read-only)
+  if (VERIFY_FS || VERBOSE) {
+    STEP("6b", "Final ext4 filesystem check (read-only)");
+    const fsckFinal = await runWithProgress(exe, ["e2fsck", "-f", "-n", "-C", "1", rootPart], parseE2fsckProgress, { allowNonZeroExit: true });
+    // e2fsck exit codes: 0 clean, 1 corrected (not with -n), 2 reboot needed, 4 uncorrected errors, >=8 operational/usage errors
+    if (fsckFinal.code >= 8) {
+      ERROR(`Final e2fsck failed (code ${fsckFinal.code})`);
+      ERROR(fsckFinal.stderr);
+      throw new WorkerError("FS_CHECK_FAILED", `Final filesystem verification failed with code ${fsckFinal.code}`);
     }
-    const targetMB = Math.floor((rootNewEnd - rootNewStart + 1) * 512 / 1024 / 1024);
-    await exe.run(["resize2fs", rootPart, `${targetMB}M`]);
-    // write shrunk table at CURRENT location (will be moved in Step 5b if needed)
-    const bootSize = layout.boot.end - layout.boot.start + 1;
-    const rootSize = rootNewEnd - rootNewStart + 1;
-    // Keep root at current location during shrink, will move later
-    const sfd = sfdiskTable(loop, layout.boot.start, bootSize, layout.root.start, rootSize);
-    await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfd });
-    await rereadMappings(exe, loop);
-  } else {
-    INFO("Step 5: Root partition does not need to be shrunk");
-  }
-
-  // Step 5b: Move root if required
-  if (needsRootMove && !DRY) {
-    INFO("Step 5b: Moving root partition...");
-    const sizeSectors = rootNewEnd - rootNewStart + 1;
-    
-    // Use rsync for root partition moves - handles overlap safely via temporary storage
-    INFO("Moving root via rsync...");
-    mkdirSync("/mnt/old-root", { recursive: true });
-    mkdirSync("/mnt/new-root", { recursive: true });
-    
-    // Copy to temp, rewrite partition table, format new location, rsync back
-    const tempBackup = "/root-backup-move";
-    mkdirSync(tempBackup, { recursive: true });
-    
-    await exe.run(["mount", "-o", "ro", rootPart, "/mnt/old-root"]);
-    await exe.run(["rsync", "-aAXH", "--info=progress2", "/mnt/old-root/", tempBackup + "/"]);
-    await exe.run(["umount", "/mnt/old-root"], { allowNonZeroExit: true });
-    
-    // Rewrite table with moved root and format
-    const bootSize = layout.boot.end - layout.boot.start + 1;
-    const sfd = sfdiskTable(loop, layout.boot.start, bootSize, rootNewStart, sizeSectors);
-    await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfd });
-    await rereadMappings(exe, loop);
-    
-    const base = loop.split("/").pop()!;
-    const mapperRoot = `/dev/mapper/${base}p2`;
-    rootPart = existsSync(mapperRoot) ? mapperRoot : `${loop}p2`;
-    
-    await exe.run(["mkfs.ext4", "-F", rootPart]);
-    await exe.run(["mount", rootPart, "/mnt/new-root"]);
-    await exe.run(["rsync", "-aAXH", "--info=progress2", tempBackup + "/", "/mnt/new-root/"]);
-    await exe.run(["umount", "/mnt/new-root"], { allowNonZeroExit: true });
-    
-    INFO("Root move completed via rsync");
-
-    // Final fsck after rsync move
-    const e2fsckResult2 = await exe.run(["e2fsck", "-f", "-y", rootPart], { allowNonZeroExit: true });
-    if (e2fsckResult2.code > 2) throw new Error(`e2fsck failed with code ${e2fsckResult2.code}`);
-  } else {
-    INFO("Step 5b: Root partition does not need to be moved");
-  }
-
-  // Step 6: Resize boot partition (write table with new boot size)
-  INFO("Step 6: Resizing boot partition...");
-  if (!DRY) {
-    const bootSize = bootNewEnd - layout.boot.start + 1;
-    if (!needsRootMove) {
-      // Root didn't move, use original root location
-      const rootSize = layout.root.end - layout.root.start + 1;
-      const sfd = sfdiskTable(loop, layout.boot.start, bootSize, layout.root.start, rootSize);
-      await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfd });
-      await rereadMappings(exe, loop);
+    if (fsckFinal.code === 4) {
+      WARN("Final e2fsck reported uncorrected issues (read-only mode). Review output above.");
+    } else if (fsckFinal.code === 2) {
+      WARN("Final e2fsck requests reboot (informational inside container).");
     } else {
-      // Root moved, rewrite table with new boot size and moved root location
-      const rootSize = rootNewEnd - rootNewStart + 1;
-      const sfd = sfdiskTable(loop, layout.boot.start, bootSize, rootNewStart, rootSize);
-      await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfd });
-      await rereadMappings(exe, loop);
+      INFO("Final e2fsck completed without fatal issues.");
     }
   }
 
-  // Step 7: Create new FAT32 filesystem
-  INFO("Step 7: Creating new FAT32 filesystem on boot partition...");
-  if (!DRY) {
-    // refresh bootPart reference
-    const base = loop.split("/").pop()!;
-    const mapperBoot = `/dev/mapper/${base}p1`;
-    bootPart = existsSync(mapperBoot) ? mapperBoot : `${loop}p1`;
-    if (bootLabel) {
-      INFO(`Recreating FAT32 filesystem with preserved label '${bootLabel}'`);
-      await exe.run(["mkfs.vfat", "-F", "32", "-n", bootLabel, bootPart]);
-    } else {
-      await exe.run(["mkfs.vfat", "-F", "32", bootPart]);
-    }
+  // Step 6c: Create /forcefsck to trigger fsck on Raspberry Pi boot
+  await journal.step("forcefsck", async () => {
+    STEP("6c", "Create /forcefsck marker for boot-time filesystem check");
+    const rootMount = await mountAt(exe, RESOURCES, rootPart, `${MNT}/root`);
+    journal.preserve(`${MNT}/root`, "/forcefsck");
+    await exe.run(["touch", `${MNT}/root/forcefsck`]);
+    await RESOURCES.release(rootMount);
+  });
+
+  // Step 6d: Install or remove the first-boot root expansion hook
+  await journal.step("expand-on-boot", async () => {
+    STEP("6d", `${settings.expandOnBoot ? "Enable" : "Disable"} root auto-expand on first boot`);
+    await configureExpandOnBoot(exe, journal, bootPart, rootPart, settings.expandOnBoot);
+  });
+
+  // Step 6e: Zero free space so the image compresses well
+  if (settings.zeroFree) {
+    await journal.step("zero-free", async () => {
+      STEP("6e", "Zero free space in boot and root filesystems");
+      await zeroFreeSpace(exe, bootPart);
+      await zeroFreeSpace(exe, rootPart);
+    });
   }
 
-  // Step 8: Restore boot files
-  INFO("Step 8: Restoring boot files...");
-  if (!DRY) {
-    await exe.run(["mount", bootPart, "/mnt/boot"]);
-    await exe.run(["rsync", "-a", "/boot-backup/", "/mnt/boot/"]);
-    await exe.run(["umount", "/mnt/boot"], { allowNonZeroExit: true });
-  }
-
-  // Step 9: Auto-adjust root to fill available space (always evaluate when not DRY)
-  if (!DRY) {
-    INFO("Step 9: Evaluating root partition size for auto-adjust...");
-    const diskSectors = Number((await exe.run(["blockdev", "--getsz", loop])).stdout.trim());
-    const dump = (await exe.run(["sfdisk", "-d", loop])).stdout;
-    const parsed = parseSfdiskDump(dump, loop);
-    const currentRootStart = parsed.root.start;
-    const currRootEnd = parsed.root.end;
-    const currRootSize = currRootEnd - currentRootStart + 1;
-    // Leave 2048 sector (1MB) buffer at end for safety/alignment similar to earlier logic
-    const maxRootSizeSectors = diskSectors - currentRootStart - 2048;
-
-    // Determine actions:
-    const canGrow = maxRootSizeSectors > currRootSize;
-    const mustShrink = imageShrunk && maxRootSizeSectors < currRootSize; // shrinking due to image file shrink
-
-    if (mustShrink) {
-      INFO("Step 9: Shrinking root filesystem to fit reduced image size...");
-      const targetMB = Math.floor(maxRootSizeSectors * 512 / 1024 / 1024);
-      const e2fsckResult = await exe.run(["e2fsck", "-f", "-y", rootPart], { allowNonZeroExit: true });
-      if (e2fsckResult.code > 2) throw new Error(`e2fsck failed with code ${e2fsckResult.code}`);
-      await exe.run(["resize2fs", rootPart, `${targetMB}M`]);
-      const sfdShrink = sfdiskTable(loop, parsed.boot.start, parsed.boot.end - parsed.boot.start + 1, currentRootStart, maxRootSizeSectors);
-      await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfdShrink });
-      await rereadMappings(exe, loop);
-    } else if (canGrow) {
-      // Grow root if image expanded OR freed space appeared due to boot move
-      INFO("Step 9: Growing root filesystem to occupy remaining free space...");
-      const sfdGrow = sfdiskTable(loop, parsed.boot.start, parsed.boot.end - parsed.boot.start + 1, currentRootStart, maxRootSizeSectors);
-      await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: sfdGrow });
-      await rereadMappings(exe, loop);
-      // Refresh rootPart mapping after potential table rewrite
-      const base = loop.split("/").pop()!;
-      const mapperRoot = `/dev/mapper/${base}p2`;
-      rootPart = existsSync(mapperRoot) ? mapperRoot : `${loop}p2`;
-      const e2fsckResultGrow = await exe.run(["e2fsck", "-f", "-y", rootPart], { allowNonZeroExit: true });
-      if (e2fsckResultGrow.code > 2) throw new Error(`e2fsck failed with code ${e2fsckResultGrow.code}`);
-      await exe.run(["resize2fs", rootPart]);
-    } else if (UNSAFE && !needsRootMove) {
-      WARN("Step 9: Unsafe resize requested (no size change detected)");
-      const e2fsckResultUnsafe = await exe.run(["e2fsck", "-f", "-y", rootPart], { allowNonZeroExit: true });
-      if (e2fsckResultUnsafe.code > 2) throw new Error(`e2fsck failed with code ${e2fsckResultUnsafe.code}`);
-      await exe.run(["resize2fs", rootPart]);
-    } else {
-      INFO("Step 9: No root size adjustment needed.");
+  // Flush the loop device so the image file holds the final table
+  await exe.run(["blockdev", "--flushbufs", loop], { allowNonZeroExit: true });
+  const finalTable = readImagePartitionTable(imagePath).table;
+  const imageBytes = Bun.file(imagePath).size;
+
+  // Verbose summary (human readable partition and image sizes)
+  if (VERBOSE) {
+    const sectorSize = 512;
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+    const toGB = (bytes: number) => (bytes / 1024 / 1024 / 1024).toFixed(2);
+    SUMMARY("Final Partition Layout:");
+    SUMMARY(`Partition table type: ${finalTable.label}`);
+    for (const p of finalTable.partitions) {
+      const bytes = p.size * sectorSize;
+      SUMMARY(`p${p.number}: start=${p.start} end=${partitionEnd(p)} sectors=${p.size} sizeMB=${toMB(bytes)} sizeGB=${toGB(bytes)}${p.type ? ` type=${p.type}` : ""}${p.name ? ` name=${p.name}` : ""}`);
     }
+    SUMMARY(`Image Size: ${imageBytes} bytes (${toMB(imageBytes)} MB / ${toGB(imageBytes)} GB)`);
+    SUMMARY(`Image Path (container): ${imagePath}`);
   }
 
-  // Step 10: Final verification
-  INFO("Step 10: Final verification...");
-  if (!DRY) {
-    await exe.run(["blkid", bootPart, rootPart], { allowNonZeroExit: true });
-
-    // Optional final filesystem verification (read-only)
-    if (VERIFY_FS || VERBOSE_ENV === "1") {
-      INFO("Step 10b: Running final ext4 filesystem check (read-only)...");
-      const fsckFinal = await exe.run(["e2fsck", "-f", "-n", rootPart], { allowNonZeroExit: true });
-      // e2fsck exit codes: 0 clean, 1 corrected (not with -n), 2 reboot needed, 4 uncorrected errors, >=8 operational/usage errors
-      if (fsckFinal.code >= 8) {
-        ERROR(`Final e2fsck failed (code ${fsckFinal.code})`);
-        ERROR(fsckFinal.stderr);
-        throw new Error(`Final filesystem verification failed with code ${fsckFinal.code}`);
-      }
-      if (fsckFinal.code === 4) {
-        WARN("Final e2fsck reported uncorrected issues (read-only mode). Review output above.");
-      } else if (fsckFinal.code === 2) {
-        WARN("Final e2fsck requests reboot (informational inside container).");
-      } else {
-        INFO("Final e2fsck completed without fatal issues.");
+  for (const e of refEdits) {
+    SUMMARY(`Reference updated in ${e.file}: ${e.from} -> ${e.to}`);
+  }
+  for (const a of added) {
+    SUMMARY(`Partition added: p${a.number} ${a.spec.name} (${a.spec.fsType}, ${a.spec.sizeSectors / 2048}MB, label ${a.spec.label})`);
+  }
+
+  journal.remove();
+  endStep(true);
+  emit({ type: "layout", table: finalTable, imageBytes });
+  INFO("=== Operation completed successfully ===");
+}
+
+// Smallest root size resize2fs allows, plus headroom, in whole MB
+async function minimumRootSize(exe: Executor, rootPart: string, headroom: string): Promise<{ minBlocks: number; blockSize: number; targetMB: number }> {
+  const minBlocks = parseResize2fsMinimum((await exe.run(["resize2fs", "-P", rootPart])).stdout);
+  const { blockSize = 4096 } = parseDumpe2fsHeader((await exe.run(["dumpe2fs", "-h", rootPart])).stdout);
+  const targetMB = Math.ceil((minBlocks * blockSize + withCode("INVALID_CONFIG", () => parseSize(headroom))) / 1024 / 1024);
+  return { minBlocks, blockSize, targetMB };
+}
+
+// Steps 2 and 3 of a fresh resize: examine the image, plan the new layout and
+// record both in a new journal before anything is written
+async function startJournal(
+  exe: Executor,
+  loop: string,
+  imagePath: string,
+  options: ResizeOptions,
+  headroom: string | undefined,
+  settings: JournalData["settings"],
+): Promise<Journal> {
+  STEP("2", "Examine partition layout");
+  const { table: initial, warnings } = readImagePartitionTable(imagePath);
+  for (const w of warnings) WARN(w);
+  const { bootNum, rootNum, fsTypes } = await identifyPartitions(exe, loop, initial);
+  const bootPart = partDevice(loop, bootNum);
+  const rootPart = partDevice(loop, rootNum);
+  if (!existsSync(bootPart) || !existsSync(rootPart)) {
+    throw new WorkerError("UNSUPPORTED_LAYOUT", `Partition devices not found: ${bootPart}, ${rootPart}`);
+  }
+  // Capture existing boot filesystem label (if any) for later preservation; ignore errors
+  const labelRes = await exe.run(["blkid", "-s", "LABEL", "-o", "value", bootPart], { allowNonZeroExit: true });
+  const bootLabel = labelRes.code === 0 ? labelRes.stdout.trim() : "";
+  if (bootLabel) INFO(`Detected existing boot label: '${bootLabel}'`);
+  // Identifiers referenced from cmdline.txt / fstab, compared again after resize
+  const identities = { boot: await readIdentity(exe, bootPart, bootNum), root: await readIdentity(exe, rootPart, rootNum) };
+
+  STEP("3", "Calculate new partition layout");
+  INFO(`Partition table type: ${initial.label}`);
+  if (initial.labelId) INFO(`Disk identifier: ${initial.labelId}`);
+  let shrinkToMinSectors: number | undefined;
+  if (headroom !== undefined) {
+    await checkRoot(exe, rootPart);
+    const { minBlocks, blockSize, targetMB } = await minimumRootSize(exe, rootPart, headroom);
+    INFO(`Minimum root size ${targetMB}MB (${minBlocks} blocks of ${blockSize} bytes + ${headroom} headroom)`);
+    shrinkToMinSectors = targetMB * 2048;
+  }
+  const diskSectors = Number((await exe.run(["blockdev", "--getsz", loop])).stdout.trim());
+  const plan = withCode("PLAN_INFEASIBLE", () => planResize({ table: initial, bootNum, rootNum, bootLabel: bootLabel || undefined }, diskSectors, { ...options, shrinkToMinSectors }));
+  if (plan.root.moves && fsTypes[rootNum] !== "ext4") {
+    throw new WorkerError("UNSUPPORTED_LAYOUT", `Root partition is not ext4 (detected ${fsTypes[rootNum] || "unknown"})`);
+  }
+  const rootActions = [plan.root.moves && "move", plan.root.shrinks && "shrink", plan.root.grows && "grow"].filter(Boolean);
+  INFO(`Root partition will ${rootActions.length ? rootActions.join(", ") : "keep its size and position"}`);
+
+  // Rollback resizes root back to exactly this many blocks
+  let rootFs: JournalData["rootFs"];
+  if (fsTypes[rootNum] === "ext4") {
+    const { blockCount, blockSize } = parseDumpe2fsHeader((await exe.run(["dumpe2fs", "-h", rootPart])).stdout);
+    if (blockCount && blockSize) rootFs = { blocks: blockCount, blockSize };
+  }
+  const journal = withCode("JOURNAL", () => Journal.create(imagePath, {
+    image: imagePath.split("/").pop()!,
+    startedAt: new Date().toISOString(),
+    imageBytes: Bun.file(imagePath).size,
+    rootFs,
+    plan,
+    identities,
+    settings,
+  }));
+  INFO(`Journal: ${journal.dir}`);
+  return journal;
+}
+
+// RESUME: the plan was made from the original layout, which the finished
+// operations have since changed, so it is taken from the journal as is
+async function reopenJournal(exe: Executor, loop: string, imagePath: string): Promise<Journal> {
+  const journal = withCode("JOURNAL", () => Journal.load(imagePath));
+  withCode("JOURNAL", () => assertResumable(journal.data));
+  const { plan, done, current } = journal.data;
+  const first = plan.before.partitions[0];
+  if (first && !existsSync(`${loop}p${first.number}`)) await exe.run(["kpartx", "-av", loop], { allowNonZeroExit: true });
+  const finished = plan.operations.filter((_, i) => done.includes(`op:${i}`)).length;
+  STEP("2", "Reopen journal");
+  INFO(`Resuming resize started ${journal.data.startedAt}: ${finished} of ${plan.operations.length} layout operations done`);
+  const interrupted = current?.startsWith("op:") ? describeOperation(plan.operations[Number(current.slice(3))]) : current;
+  if (interrupted) WARN(`Interrupted step runs again: ${interrupted}`);
+  return journal;
+}
+
+// DRY_RUN: everything is read through a read-only loop device (resize2fs -P
+// and dumpe2fs only read), so the plan reflects the real layout and the image
+// is left untouched
+async function reportDryRunPlan(exe: Executor, imagePath: string, options: ResizeOptions, headroom: string | undefined) {
+  const { table, warnings } = readImagePartitionTable(imagePath);
+  for (const w of warnings) WARN(w);
+  const loop = await attachLoop(exe, RESOURCES, imagePath, true);
+  await exe.run(["partprobe", loop], { allowNonZeroExit: true });
+  const { bootNum, rootNum, fsTypes } = await identifyPartitions(exe, loop, table, true);
+  const labelRes = await exe.run(["blkid", "-s", "LABEL", "-o", "value", partDevice(loop, bootNum)], { allowNonZeroExit: true });
+  const bootLabel = labelRes.code === 0 ? labelRes.stdout.trim() : "";
+  if (headroom !== undefined) {
+    const { targetMB } = await minimumRootSize(exe, partDevice(loop, rootNum), headroom);
+    options = { ...options, shrinkToMinSectors: targetMB * 2048 };
+  }
+  const plan = withCode("PLAN_INFEASIBLE", () => planResize({ table, bootNum, rootNum, bootLabel: bootLabel || undefined }, Math.floor(Bun.file(imagePath).size / 512), options));
+  if (plan.root.moves && fsTypes[rootNum] !== "ext4") {
+    throw new WorkerError("UNSUPPORTED_LAYOUT", `Root partition is not ext4 (detected ${fsTypes[rootNum] || "unknown"})`);
+  }
+  emit({ type: "plan", plan });
+}
+
+// Boot and root are identified by filesystem; any other partitions are carried through
+async function identifyPartitions(exe: Executor, loop: string, table: SfdiskTable, readOnly = false): Promise<{ bootNum: number; rootNum: number; fsTypes: Record<number, string> }> {
+  if (table.partitions.length === 0) throw new WorkerError("UNSUPPORTED_LAYOUT", "No partitions found in image");
+  if (!existsSync(`${loop}p${table.partitions[0].number}`)) {
+    await exe.run(["kpartx", ...(readOnly ? ["-r"] : []), "-av", loop], { allowNonZeroExit: true });
+  }
+  const fsTypes: Record<number, string> = {};
+  for (const p of table.partitions) {
+    if (isExtended(table, p)) continue;
+    const res = await exe.run(["blkid", "-s", "TYPE", "-o", "value", partDevice(loop, p.number)], { allowNonZeroExit: true });
+    fsTypes[p.number] = res.stdout.trim();
+  }
+  const roles = withCode("UNSUPPORTED_LAYOUT", () => findRoles(table, fsTypes));
+  const bootNum = roles.boot.number;
+  const rootNum = roles.root.number;
+  INFO(`Boot partition: p${bootNum}, root partition: p${rootNum}`);
+  for (const p of table.partitions) {
+    if (p.number === bootNum || p.number === rootNum) continue;
+    INFO(`Carrying through p${p.number} (${isExtended(table, p) ? "extended" : fsTypes[p.number] || "unknown"}, ${p.size} sectors)`);
+  }
+  return { bootNum, rootNum, fsTypes };
+}
+
+// Copy a partition's raw blocks to a new start on the same device. Each dd call
+// reads its whole chunk before writing it, so copying back to front (moving
+// right) or front to back (moving left) never clobbers blocks not yet copied.
+async function moveSectors(exe: Executor, loop: string, m: PartitionMove) {
+  const chunk = 64 * 2048; // 64MB
+  const offsets: number[] = [];
+  for (let off = 0; off < m.size; off += chunk) offsets.push(off);
+  if (m.to > m.from) offsets.reverse();
+  for (const [i, off] of offsets.entries()) {
+    const len = Math.min(chunk, m.size - off);
+    await exe.run([
+      "dd", `if=${loop}`, `of=${loop}`, `bs=${len * 512}`, "count=1",
+      `skip=${(m.from + off) * 512}`, `seek=${(m.to + off) * 512}`,
+      "iflag=skip_bytes,fullblock", "oflag=seek_bytes", "conv=notrunc", "status=none",
+    ]);
+    emit({ type: "progress", percent: Math.floor(((i + 1) / offsets.length) * 100) });
+  }
+  await exe.run(["sync"]);
+}
+
+// Apply a table script and confirm the disk identifier and partition GUIDs
+// survived; cmdline.txt and /etc/fstab reference them via PARTUUID=
+async function writeTable(exe: Executor, ctx: PlanContext, script: string) {
+  const { loop } = ctx;
+  await exe.run(["sfdisk", "--force", "--no-reread", loop], { stdin: script });
+  await rereadMappings(exe, loop);
+  // Read back from the image file, so the loop device's buffers go there first
+  await exe.run(["blockdev", "--flushbufs", loop], { allowNonZeroExit: true });
+  const written = readImagePartitionTable(ctx.imagePath).table;
+  assertIdentifiersPreserved(ctx.original, written);
+}
+
+type AddedPartition = { spec: PartitionSpec; number: number; dev: string };
+
+type PlanContext = {
+  loop: string;
+  imagePath: string;
+  original: SfdiskTable; // identifiers every table write must preserve
+  rootNum: number;
+  bootBackup: string; // raw copy of the boot partition, kept in the journal
+  movedRoot?: Ext4Params; // root superblock to find again once the table points at its new start
+};
+
+async function checkRoot(exe: Executor, dev: string) {
+  const res = await runWithProgress(exe, ["e2fsck", "-f", "-y", "-C", "1", dev], parseE2fsckProgress, { allowNonZeroExit: true });
+  if (res.code > 2) {
+    ERROR(`e2fsck stdout: ${res.stdout}`);
+    ERROR(`e2fsck stderr: ${res.stderr}`);
+    throw new WorkerError("FS_CHECK_FAILED", `e2fsck failed with code ${res.code}`);
+  }
+}
+
+// Run a tool that reports its progress on stdout or stderr and forward each new percentage
+async function runWithProgress(exe: Executor, cmd: string[], parse: (line: string) => number | undefined, options: ExecOptions = {}) {
+  let last = -1;
+  const report = (line: string) => {
+    const percent = parse(line);
+    if (percent === undefined || percent === last) return;
+    last = percent;
+    emit({ type: "progress", percent });
+  };
+  const out = lineSplitter(report);
+  const err = lineSplitter(report);
+  const res = await exe.run(cmd, { ...options, onStdoutChunk: out.push, onStderrChunk: err.push });
+  out.end();
+  err.end();
+  return res;
+}
+
+async function applyOperation(exe: Executor, ctx: PlanContext, op: PlanOperation) {
+  const { loop } = ctx;
+  const dev = (n: number) => partDevice(loop, n);
+  switch (op.op) {
+    case "resize-image":
+      await exe.run(["truncate", "-s", String(op.bytes), ctx.imagePath]);
+      await exe.run(["losetup", "-c", loop]);
+      await rereadMappings(exe, loop);
+      return;
+    case "backup-boot":
+      // Raw, next to the image: the only copy of boot while it is reformatted
+      await exe.run(["dd", `if=${dev(op.partition)}`, `of=${ctx.bootBackup}`, "bs=4M", "conv=fsync", "status=none"]);
+      return;
+    case "shrink-fs":
+      await checkRoot(exe, dev(op.partition));
+      await exe.run(["resize2fs", dev(op.partition), `${op.sizeMB}M`]);
+      return;
+    case "move-partition":
+      await moveSectors(exe, loop, op.move);
+      return;
+    case "move-fs": {
+      // Block-level move of the used filesystem blocks. e2image's move mode (-ra with
+      // -o/-O on a single device) copies back to front when the destination lies to
+      // the right of the source, so the overlapping ranges are never clobbered.
+      // The filesystem (UUID, label, features, journal) is carried over verbatim.
+      await checkRoot(exe, dev(op.move.number));
+      const params = parseDumpe2fsHeader((await exe.run(["dumpe2fs", "-h", dev(op.move.number)])).stdout);
+      const fsBytes = (params.blockCount ?? 0) * (params.blockSize ?? 0);
+      if (fsBytes > op.move.size * 512) {
+        throw new WorkerError("PLAN_INFEASIBLE", `Root filesystem (${fsBytes} bytes) does not fit the target partition (${op.move.size * 512} bytes)`);
       }
+      await runWithProgress(exe, ["e2image", "-ra", "-p", "-o", String(op.move.from * 512), "-O", String(op.move.to * 512), loop], parseE2imageProgress);
+      ctx.movedRoot = params;
+      return;
     }
-
-    // Step 10c: Create /forcefsck to trigger fsck on Raspberry Pi boot
-    INFO("Step 10c: Creating /forcefsck marker for boot-time filesystem check...");
-    mkdirSync("/mnt/root", { recursive: true });
-    await exe.run(["mount", rootPart, "/mnt/root"]);
-    await exe.run(["touch", "/mnt/root/forcefsck"]);
-    await exe.run(["umount", "/mnt/root"], { allowNonZeroExit: true });
-
-    // Verbose summary (human readable partition and image sizes) BEFORE detaching loop
-    if (VERBOSE_ENV === "1") {
-      try {
-        const dumpTxtRes = await exe.run(["sfdisk", "-d", loop], { allowNonZeroExit: true });
-        const dumpTxt = dumpTxtRes.stdout;
-        const sectorSize = 512;
-        const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
-        const toGB = (bytes: number) => (bytes / 1024 / 1024 / 1024).toFixed(2);
-        const imageBytes = Bun.file(imagePath).size;
-        const imageMB = toMB(imageBytes);
-        const imageGB = toGB(imageBytes);
-        console.log("[SUMMARY] Final Partition Layout:");
-        const lines = dumpTxt.split("\n");
-        const base = loop.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-        for (const line of lines) {
-          const m = line.match(new RegExp(`^${base}p(\\d+)\\s*:\\s*(.*)$`));
-          if (m) {
-            const partNum = m[1];
-            const startMatch = line.match(/start=\s*(\d+)/);
-            const sizeMatch = line.match(/size=\s*(\d+)/);
-            const typeMatch = line.match(/type=([0-9a-fA-Fx]+)/);
-            if (startMatch && sizeMatch) {
-              const start = Number(startMatch[1]);
-              const sizeSectors = Number(sizeMatch[1]);
-              const end = start + sizeSectors - 1;
-              const bytes = sizeSectors * sectorSize;
-              console.log(`[SUMMARY] p${partNum}: start=${start} end=${end} sectors=${sizeSectors} sizeMB=${toMB(bytes)} sizeGB=${toGB(bytes)}${typeMatch ? ` type=${typeMatch[1]}` : ""}`);
-            }
-          }
+    case "write-table":
+      await writeTable(exe, ctx, renderSfdiskTable(op.table, loop));
+      if (ctx.movedRoot) {
+        const expected = ctx.movedRoot;
+        const moved = parseDumpe2fsHeader((await exe.run(["dumpe2fs", "-h", dev(ctx.rootNum)])).stdout);
+        if (moved.uuid !== expected.uuid || moved.blockCount !== expected.blockCount) {
+          throw new WorkerError("UNSUPPORTED_LAYOUT", `Root filesystem not found at new location (UUID ${moved.uuid ?? "none"}, expected ${expected.uuid ?? "none"})`);
         }
-        console.log(`[SUMMARY] Image Size: ${imageBytes} bytes (${imageMB} MB / ${imageGB} GB)`);
-        console.log(`[SUMMARY] Image Path (container): ${imagePath}`);
-      } catch (e) {
-        WARN(`Unable to produce verbose summary: ${e instanceof Error ? e.message : String(e)}`);
+        INFO("Root move completed via e2image");
+        ctx.movedRoot = undefined;
+        await checkRoot(exe, dev(ctx.rootNum));
       }
+      return;
+    case "format-boot":
+      await exe.run(["mkfs.vfat", "-F", "32", ...(op.label ? ["-n", op.label] : []), dev(op.partition)]);
+      return;
+    case "restore-boot": {
+      const backup = await mountAt(exe, RESOURCES, ctx.bootBackup, `${MNT}/boot-backup`, "ro,loop");
+      const m = await mountAt(exe, RESOURCES, dev(op.partition), `${MNT}/boot`);
+      await runWithProgress(exe, ["rsync", "-a", "--info=progress2", "--no-inc-recursive", `${MNT}/boot-backup/`, `${MNT}/boot/`], parseRsyncProgress);
+      await RESOURCES.release(m);
+      await RESOURCES.release(backup);
+      return;
     }
+    case "format-partition":
+      await exe.run(buildMkfsArgs(op.spec, dev(op.partition)));
+      return;
+    case "grow-fs":
+      await checkRoot(exe, dev(op.partition));
+      await exe.run(["resize2fs", dev(op.partition)]);
+      return;
+  }
+}
 
-    // Cleanup: detach loop device
-    await exe.run(["kpartx", "-d", loop], { allowNonZeroExit: true });
-    await exe.run(["losetup", "-d", loop], { allowNonZeroExit: true });
+async function addFstabEntries(exe: Executor, journal: Journal, rootPart: string, added: AddedPartition[]) {
+  const entries: string[] = [];
+  for (const a of added) {
+    const uuid = (await exe.run(["blkid", "-s", "UUID", "-o", "value", a.dev])).stdout.trim();
+    if (!uuid) throw new Error(`No filesystem UUID found on ${a.dev}`);
+    entries.push(fstabEntry(a.spec, uuid));
+  }
+  const rootMount = await mountAt(exe, RESOURCES, rootPart, `${MNT}/root`);
+  const fstab = `${MNT}/root/etc/fstab`;
+  const res = appendFstabEntries(existsSync(fstab) ? readFileSync(fstab, "utf8") : "", entries);
+  for (const a of added) {
+    if (a.spec.fsType === "swap") continue;
+    journal.preserve(`${MNT}/root`, `/${a.spec.name}`);
+    mkdirSync(`${MNT}/root/${a.spec.name}`, { recursive: true });
   }
+  if (res.added.length) {
+    journal.preserve(`${MNT}/root`, "/etc/fstab");
+    writeFileSync(fstab, res.text);
+  }
+  await RESOURCES.release(rootMount);
+  for (const e of res.added) INFO(`Added to /etc/fstab: ${e}`);
+  if (res.added.length < entries.length) WARN("Some mount points were already listed in /etc/fstab and were left unchanged");
+}
 
-  INFO("=== Operation completed successfully ===");
+async function readIdentity(exe: Executor, dev: string, number: number): Promise<FsIdentity> {
+  const res = await exe.run(["blkid", "-o", "export", dev], { allowNonZeroExit: true });
+  return { number, ...parseBlkidExport(res.stdout) };
 }
 
-function parseSize(s: string): { bytes: number; pretty: string } {
-  const m = s.match(/^(\d+)([KMGTP]?B?)$/i);
-  if (!m) throw new Error(`Invalid size format: ${s}`);
-  const n = Number(m[1]);
-  const u = m[2].toUpperCase();
-  const mult: Record<string, number> = { "": 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3, T: 1024 ** 4, P: 1024 ** 5 };
-  const key = u.replace("B", "") as keyof typeof mult;
-  const bytes = n * (mult[key] ?? 1);
-  return { bytes, pretty: s };
-}
-
-function parseSfdiskDump(dump: string, loop: string) {
-  // Defaults for dry-run or if dump unavailable
-  if (!dump) {
-    return {
-      diskSectors: 0,
-      boot: { start: 8192, end: 8192 + (256 * 1024 * 1024) / 512 - 1 },
-      root: { start: 1050624, end: 0 }
-    };
+async function fixupBootReferences(exe: Executor, journal: Journal, bootPart: string, rootPart: string, changes: IdentityChange[]): Promise<RefEdit[]> {
+  const edits: RefEdit[] = [];
+  const bootMount = await mountAt(exe, RESOURCES, bootPart, `${MNT}/boot`);
+  // cmdline.txt sits at the FAT root (mounted at /boot/firmware on Bookworm)
+  const cmdline = `${MNT}/boot/cmdline.txt`;
+  if (existsSync(cmdline)) {
+    const res = rewriteCmdline(readFileSync(cmdline, "utf8"), changes);
+    if (res.edits.length) writeFileSync(cmdline, res.text);
+    edits.push(...res.edits);
   }
-  const boot = { start: 0, end: 0 };
-  const root = { start: 0, end: 0 };
-  const lines = dump.split("\n");
-  const loopEscaped = loop.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  for (const line of lines) {
-    const lp1 = line.match(new RegExp(`^${loopEscaped}p1\\s*:`));
-    const lp2 = line.match(new RegExp(`^${loopEscaped}p2\\s*:`));
-    if (lp1 || lp2) {
-      const m = line.match(/start=\s*(\d+).+size=\s*(\d+)/);
-      if (m) {
-        const start = Number(m[1]);
-        const size = Number(m[2]);
-        const end = start + size - 1;
-        if (lp1) { boot.start = start; boot.end = end; }
-        if (lp2) { root.start = start; root.end = end; }
+  await RESOURCES.release(bootMount);
+  const rootMount = await mountAt(exe, RESOURCES, rootPart, `${MNT}/root`);
+  const fstab = `${MNT}/root/etc/fstab`;
+  if (existsSync(fstab)) {
+    const res = rewriteFstab(readFileSync(fstab, "utf8"), changes);
+    if (res.edits.length) {
+      journal.preserve(`${MNT}/root`, "/etc/fstab");
+      writeFileSync(fstab, res.text);
+    }
+    edits.push(...res.edits);
+  }
+  await RESOURCES.release(rootMount);
+  return edits;
+}
+
+// Mechanism depends on the OS in the image: Raspberry Pi OS resizes via an
+// init= hook in cmdline.txt, other distros get a one-shot systemd unit
+async function configureExpandOnBoot(exe: Executor, journal: Journal, bootPart: string, rootPart: string, enable: boolean) {
+  const bootMount = await mountAt(exe, RESOURCES, bootPart, `${MNT}/boot`);
+  const rootMount = await mountAt(exe, RESOURCES, rootPart, `${MNT}/root`);
+  const cmdlinePath = `${MNT}/boot/cmdline.txt`;
+  const cmdline = existsSync(cmdlinePath) ? readFileSync(cmdlinePath, "utf8") : "";
+  const inRoot = (p: string) => `${MNT}/root${p}`;
+  // Always start from a clean slate so toggling the flag is idempotent
+  for (const p of [EXPAND_UNIT_LINK, EXPAND_UNIT_PATH, EXPAND_SCRIPT_PATH]) {
+    journal.preserve(`${MNT}/root`, p);
+    rmSync(inRoot(p), { force: true });
+  }
+  let nextCmdline = removeExpandFromCmdline(cmdline);
+  if (enable) {
+    const osRelease = existsSync(inRoot("/etc/os-release")) ? parseOsRelease(readFileSync(inRoot("/etc/os-release"), "utf8")) : {};
+    const mech = detectExpandMechanism((p) => existsSync(inRoot(p)), cmdline);
+    INFO(`Detected OS: ${osRelease.PRETTY_NAME ?? "unknown"}; expand mechanism: ${mech.kind}`);
+    if (mech.kind === "systemd") {
+      for (const d of ["/usr/local/sbin", "/etc/systemd/system/multi-user.target.wants"]) {
+        journal.preserve(`${MNT}/root`, d);
+        mkdirSync(inRoot(d), { recursive: true });
       }
+      writeFileSync(inRoot(EXPAND_SCRIPT_PATH), EXPAND_SCRIPT);
+      chmodSync(inRoot(EXPAND_SCRIPT_PATH), 0o755);
+      writeFileSync(inRoot(EXPAND_UNIT_PATH), EXPAND_UNIT);
+      symlinkSync(EXPAND_UNIT_PATH, inRoot(EXPAND_UNIT_LINK));
+    } else if (cmdline) {
+      nextCmdline = addExpandToCmdline(cmdline, mech.init);
+    } else {
+      WARN("cmdline.txt not found on boot partition; cannot enable first-boot expansion");
     }
   }
-  if (!boot.start || !root.start) throw new Error("Failed to parse partition table via sfdisk");
-  // total disk sectors
-  return { diskSectors: 0, boot, root };
+  if (cmdline && nextCmdline !== cmdline) writeFileSync(cmdlinePath, nextCmdline);
+  await RESOURCES.release(rootMount);
+  await RESOURCES.release(bootMount);
 }
 
-function sfdiskTable(loop: string, p1Start: number, p1Size: number, p2Start: number, p2Size: number) {
-  return `label: dos\nunit: sectors\n\n${loop}p1 : start=${p1Start}, size=${p1Size}, type=c, bootable\n${loop}p2 : start=${p2Start}, size=${p2Size}, type=83\n`;
+function partDevice(loop: string, n: number): string {
+  const mapper = `/dev/mapper/${loop.split("/").pop()}p${n}`;
+  return existsSync(mapper) ? mapper : `${loop}p${n}`;
+}
+
+// Overwrite unused blocks with zeros: zerofree for ext2/3/4 (must be unmounted),
+// a zero-filled file for FAT, which leaves the freed clusters zeroed on delete
+async function zeroFreeSpace(exe: Executor, dev: string) {
+  const fsType = (await exe.run(["blkid", "-s", "TYPE", "-o", "value", dev], { allowNonZeroExit: true })).stdout.trim();
+  if (/^ext[234]$/.test(fsType)) {
+    const fsck = await exe.run(["e2fsck", "-f", "-y", dev], { allowNonZeroExit: true });
+    if (fsck.code > 2) throw new WorkerError("FS_CHECK_FAILED", `e2fsck failed with code ${fsck.code}`);
+    INFO(`Running zerofree on ${dev} (${fsType})...`);
+    await exe.run(["zerofree", "-v", dev]);
+  } else if (fsType === "vfat") {
+    INFO(`Zero-filling free clusters on ${dev} (vfat)...`);
+    const m = await mountAt(exe, RESOURCES, dev, `${MNT}/zero`);
+    // dd stops with ENOSPC once the filesystem is full; that is the expected outcome
+    await exe.run(["dd", "if=/dev/zero", `of=${MNT}/zero/.rpi-tool-zerofill`, "bs=1M", "status=none"], { allowNonZeroExit: true });
+    await exe.run(["sync"]);
+    rmSync(`${MNT}/zero/.rpi-tool-zerofill`, { force: true });
+    await RESOURCES.release(m);
+  } else {
+    WARN(`Skipping free-space zeroing on ${dev} (filesystem ${fsType || "unknown"})`);
+  }
+}
+
+// Standalone MODE=zerofree: zero every supported filesystem in the image
+async function runZeroFree(exe: Executor, job: ResizeJob) {
+  const imagePath = imageInWork(job);
+
+  INFO("=== Raspberry Pi Image Zerofree Worker ===");
+  INFO(`Image file: ${job.image}`);
+  if (job.dryRun) {
+    WARN("DRY RUN mode active; nothing to do");
+    return;
+  }
+  const loop = await attachLoop(exe, RESOURCES, imagePath);
+  await exe.run(["partprobe", loop], { allowNonZeroExit: true });
+  const table = readImagePartitionTable(imagePath).table;
+  const first = table.partitions[0];
+  if (first && !existsSync(`${loop}p${first.number}`)) await exe.run(["kpartx", "-av", loop], { allowNonZeroExit: true });
+  for (const p of table.partitions) {
+    if (isExtended(table, p)) continue;
+    await zeroFreeSpace(exe, partDevice(loop, p.number));
+  }
+  INFO("=== Zerofree completed successfully ===");
+}
+
+// Standalone MODE=inspect: read-only loop device and mounts, results as JSON
+async function runInspect(exe: Executor, job: ResizeJob) {
+  const imagePath = imageInWork(job);
+
+  const probe: InspectProbe = { filesystems: [], bootFiles: [] };
+  const loop = await attachLoop(exe, RESOURCES, imagePath, true);
+  await exe.run(["partprobe", loop], { allowNonZeroExit: true });
+  const table = readImagePartitionTable(imagePath).table;
+  const first = table.partitions[0];
+  if (first && !existsSync(`${loop}p${first.number}`)) await exe.run(["kpartx", "-r", "-av", loop], { allowNonZeroExit: true });
+  for (const p of table.partitions) {
+    if (isExtended(table, p)) continue;
+    const dev = partDevice(loop, p.number);
+    const ids = parseBlkidExport((await exe.run(["blkid", "-o", "export", dev], { allowNonZeroExit: true })).stdout);
+    const fs: FsProbe = { ...ids, number: p.number };
+    probe.filesystems.push(fs);
+    if (fs.type !== "vfat" && !/^ext[234]$/.test(fs.type ?? "")) continue;
+    // noload: never replay an ext4 journal on a read-only device
+    const opts = fs.type === "vfat" ? "ro" : "ro,noload";
+    let m: number;
+    try {
+      m = await mountAt(exe, RESOURCES, dev, `${MNT}/inspect`, opts);
+    } catch {
+      WARN(`Could not mount p${p.number} (${fs.type}) read-only`);
+      continue;
+    }
+    Object.assign(fs, parseDfBytes((await exe.run(["df", "-B1", "--output=size,used,avail", `${MNT}/inspect`])).stdout));
+    if (!probe.os && existsSync(`${MNT}/inspect/etc/os-release`)) {
+      probe.os = parseOsRelease(readFileSync(`${MNT}/inspect/etc/os-release`, "utf8"));
+    }
+    if (fs.type === "vfat" && probe.bootFiles.length === 0) {
+      probe.bootFiles = readdirSync(`${MNT}/inspect`).sort()
+        .map((n) => (statSync(`${MNT}/inspect/${n}`).isDirectory() ? `${n}/` : n));
+    }
+    await RESOURCES.release(m);
+  }
+  emit({ type: "inspect", probe });
+}
+
+// Standalone MODE=rollback: undo the finished steps of an interrupted resize,
+// newest first, and drop the journal once the original layout is back
+async function runRollback(exe: Executor, job: ResizeJob) {
+  const imagePath = imageInWork(job);
+
+  INFO("=== Raspberry Pi Image Rollback Worker ===");
+  INFO(`Image file: ${job.image}`);
+  const journal = withCode("JOURNAL", () => Journal.load(imagePath));
+  const { plan, undoing } = journal.data;
+  const undo = withCode("JOURNAL", () => planRollback(journal.data));
+  const stopped = undoing !== undefined ? undo[undoing] : undefined;
+  if (stopped?.op === "move-back") {
+    throw new WorkerError("JOURNAL", `The rollback stopped while moving p${stopped.move.number}; restore the image from its backup copy`);
+  }
+  INFO(`Undoing ${undo.length} steps of the resize started ${journal.data.startedAt}`);
+  if (job.dryRun) {
+    undo.forEach((u, i) => INFO(`${i + 1}. ${describeUndo(u)}`));
+    return;
+  }
+  const loop = await attachLoop(exe, RESOURCES, imagePath);
+  await exe.run(["partprobe", loop], { allowNonZeroExit: true });
+  const first = plan.before.partitions[0];
+  if (first && !existsSync(`${loop}p${first.number}`)) await exe.run(["kpartx", "-av", loop], { allowNonZeroExit: true });
+  const ctx: PlanContext = { loop, imagePath, original: plan.before, rootNum: plan.rootNum, bootBackup: journal.bootBackup };
+  for (const [i, u] of undo.entries()) {
+    await journal.undo(i, async () => {
+      STEP(String(i + 1), describeUndo(u));
+      await undoOperation(exe, ctx, journal, u);
+    });
+  }
+  if (undo.length > 0 && journal.data.rootFs) await checkRoot(exe, partDevice(loop, plan.rootNum));
+  journal.remove();
+  endStep(true);
+  emit({ type: "layout", table: readImagePartitionTable(imagePath).table, imageBytes: Bun.file(imagePath).size });
+  INFO("=== Rollback completed; original layout restored ===");
+}
+
+async function undoOperation(exe: Executor, ctx: PlanContext, journal: Journal, u: UndoOperation) {
+  const { loop } = ctx;
+  const dev = (n: number) => partDevice(loop, n);
+  switch (u.op) {
+    case "restore-root-files": {
+      const m = await mountAt(exe, RESOURCES, dev(ctx.rootNum), `${MNT}/root`);
+      journal.restoreRootFiles(`${MNT}/root`);
+      await RESOURCES.release(m);
+      return;
+    }
+    case "write-table":
+    case "resize-image":
+      await applyOperation(exe, ctx, u);
+      return;
+    case "move-back":
+      // Raw offsets: the table no longer describes where the data currently is
+      if (u.fs) await runWithProgress(exe, ["e2image", "-ra", "-p", "-o", String(u.move.from * 512), "-O", String(u.move.to * 512), loop], parseE2imageProgress);
+      else await moveSectors(exe, loop, u.move);
+      return;
+    case "resize-fs":
+      await checkRoot(exe, dev(u.partition));
+      await exe.run(["resize2fs", dev(u.partition), String(u.blocks)]);
+      return;
+    case "restore-boot-image":
+      await exe.run([
+        "dd", `if=${ctx.bootBackup}`, `of=${loop}`, "bs=4M", `seek=${u.start * 512}`,
+        "oflag=seek_bytes", "conv=notrunc,fsync", "status=none",
+      ]);
+      return;
+  }
 }
 
 async function rereadMappings(exe: Executor, loop: string) {
@@ -439,8 +792,101 @@ async function rereadMappings(exe: Executor, loop: string) {
   await new Promise((resolve) => setTimeout(resolve, 1000));
 }
 
+async function runJob(exe: Executor, job: ResizeJob) {
+  switch (job.mode) {
+    case "resize": return run(exe, job, job.resize);
+    case "zerofree": return runZeroFree(exe, job);
+    case "inspect": return runInspect(exe, job);
+    case "rollback": return runRollback(exe, job);
+  }
+}
+
+function reportFailure(e: unknown) {
+  endStep(false);
+  // Executor failures carry the tool's result; anything else unclassified is a bug
+  const code: ErrorCode = e instanceof WorkerError ? e.code : e instanceof Error && "result" in e ? "COMMAND_FAILED" : "INTERNAL";
+  emit({ type: "error", code, message: e instanceof Error ? e.message : String(e) });
+}
+
+// Nothing but this process would detach the loop devices, which live in the
+// shared kernel, so a stop signal releases everything before exiting.
+// Returns a function that removes the handlers again.
+function releaseOnStop(finish: () => void): () => void {
+  const handlers = ([["SIGTERM", 143], ["SIGINT", 130]] as const).map(([signal, code]) => {
+    const handler = () => {
+      endStep(false);
+      emit({ type: "error", code: "INTERRUPTED", message: `Received ${signal}; releasing ${RESOURCES.held().join(", ") || "nothing"}` });
+      RESOURCES.unwind().finally(() => {
+        finish();
+        process.exit(code);
+      });
+    };
+    process.on(signal, handler);
+    return [signal, handler] as const;
+  });
+  return () => handlers.forEach(([signal, handler]) => process.off(signal, handler));
+}
+
+/**
+ * Run a job in this process on images in `workdir` of a Linux host, as root.
+ * Mount points live in a temporary directory instead of /mnt; events go to
+ * `onEvent` instead of stdout, and the result file is not written.
+ */
+export async function runNative(
+  exe: Executor,
+  opts: { workdir: string; job: ResizeJob; onEvent?: (event: WorkerEvent) => void },
+): Promise<WorkerResult> {
+  const events: WorkerEvent[] = [];
+  // Put back afterwards, so the module stays usable by whoever imported it
+  const saved = { WORK, MNT, sink };
+  const mnt = mkdtempSync(join(tmpdir(), "rpi-tool-mnt-"));
+  WORK = opts.workdir;
+  MNT = mnt;
+  sink = (e) => {
+    events.push(e);
+    opts.onEvent?.(e);
+  };
+  REPORTED.length = 0;
+  // Only empty mount points are removed; a mount that failed to detach keeps its directory
+  const removeMountPoints = () => {
+    for (const name of readdirSync(mnt)) {
+      try { rmdirSync(join(mnt, name)); } catch {}
+    }
+    try { rmdirSync(mnt); } catch {}
+  };
+  const stopHandlers = releaseOnStop(removeMountPoints);
+  try {
+    // The same validation a container worker applies to the job file
+    await runJob(exe, parseResizeJob(JSON.stringify(opts.job)));
+    endStep(true);
+  } catch (e) {
+    reportFailure(e);
+  } finally {
+    stopHandlers();
+    await RESOURCES.unwind();
+    removeMountPoints();
+    ({ WORK, MNT, sink } = saved);
+  }
+  const outcome = buildJobResult(opts.job.mode, REPORTED);
+  return { code: outcome.ok ? 0 : 1, stdout: "", stderr: "", events, outcome };
+}
 
 if (import.meta.main) {
   const exe = new BunExecutor();
-  run(exe).catch((e) => { console.error(e?.message || e); process.exit(1); });
+  let job: ResizeJob | undefined;
+  // PID 1 in the container: docker stop delivers SIGTERM here
+  releaseOnStop(() => writeResult(job?.mode));
+  Promise.resolve()
+    .then(() => runJob(exe, (job = readJob())))
+    .then(async () => {
+      endStep(true);
+      await RESOURCES.unwind();
+      writeResult(job?.mode);
+    })
+    .catch(async (e) => {
+      reportFailure(e);
+      await RESOURCES.unwind();
+      writeResult(job?.mode);
+      process.exit(1);
+    });
 }
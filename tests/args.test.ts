@@ -11,4 +11,13 @@ describe("args parser", () => {
     expect(args.n).toBe(3);
     expect(positional).toEqual(["pos1", "pos2"]);
   });
+
+  it("collects repeatable options into an array", () => {
+    const { args } = parseArgs(["--add", "a", "--add", "b"], [
+      { name: "add", type: "string", multiple: true },
+      { name: "other", type: "string", multiple: true },
+    ]);
+    expect(args.add).toEqual(["a", "b"]);
+    expect(args.other).toBeUndefined();
+  });
 });
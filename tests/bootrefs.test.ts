@@ -0,0 +1,66 @@
+import { describe, it, expect } from "bun:test";
+import { parseBlkidExport, identityChanged, resolveSpec, rewriteCmdline, rewriteFstab, type IdentityChange } from "../src/lib/bootrefs";
+
+const bootChange: IdentityChange = {
+  before: { number: 1, partuuid: "12345678-01", uuid: "AB12-CD34", label: "bootfs" },
+  after: { number: 1, partuuid: "12345678-01", uuid: "EF56-7890", label: "bootfs" },
+};
+const rootChange: IdentityChange = {
+  before: { number: 2, partuuid: "12345678-02", uuid: "0b5c9f3e-1111-4222-8333-944455566677", label: "rootfs" },
+  after: { number: 3, partuuid: "87654321-03", uuid: "0b5c9f3e-1111-4222-8333-944455566677", label: "rootfs" },
+};
+
+describe("parseBlkidExport", () => {
+  it("reads UUID, PARTUUID, LABEL and TYPE", () => {
+    const id = parseBlkidExport("DEVNAME=/dev/loop0p2\nLABEL=rootfs\nUUID=abc\nTYPE=ext4\nPARTUUID=12345678-02\n");
+    expect(id).toEqual({ uuid: "abc", partuuid: "12345678-02", label: "rootfs", type: "ext4" });
+  });
+});
+
+describe("identityChanged", () => {
+  it("ignores case-only differences", () => {
+    expect(identityChanged({ before: { uuid: "ab12-cd34" }, after: { uuid: "AB12-CD34" } })).toBe(false);
+    expect(identityChanged(bootChange)).toBe(true);
+  });
+});
+
+describe("resolveSpec", () => {
+  it("maps PARTUUID, UUID and /dev paths", () => {
+    expect(resolveSpec("PARTUUID=12345678-02", [rootChange])).toBe("PARTUUID=87654321-03");
+    expect(resolveSpec("UUID=ab12-cd34", [bootChange])).toBe("UUID=EF56-7890");
+    expect(resolveSpec("/dev/mmcblk0p2", [rootChange])).toBe("/dev/mmcblk0p3");
+    expect(resolveSpec("/dev/sda2", [rootChange])).toBe("/dev/sda3");
+  });
+
+  it("leaves unchanged or unrelated specs alone", () => {
+    expect(resolveSpec("LABEL=rootfs", [rootChange])).toBeUndefined();
+    expect(resolveSpec("PARTUUID=deadbeef-02", [rootChange])).toBeUndefined();
+    expect(resolveSpec("/dev/mmcblk0p1", [rootChange])).toBeUndefined();
+    expect(resolveSpec("proc", [rootChange, bootChange])).toBeUndefined();
+  });
+});
+
+describe("rewriteCmdline", () => {
+  it("rewrites root= and reports the edit", () => {
+    const { text, edits } = rewriteCmdline("console=tty1 root=PARTUUID=12345678-02 rootfstype=ext4 rootwait\n", [rootChange]);
+    expect(text).toBe("console=tty1 root=PARTUUID=87654321-03 rootfstype=ext4 rootwait\n");
+    expect(edits).toEqual([{ file: "cmdline.txt", from: "root=PARTUUID=12345678-02", to: "root=PARTUUID=87654321-03" }]);
+  });
+});
+
+describe("rewriteFstab", () => {
+  it("rewrites device fields and keeps comments and options", () => {
+    const fstab = [
+      "proc            /proc           proc    defaults          0       0",
+      "UUID=AB12-CD34  /boot/firmware  vfat    defaults          0       2",
+      "# PARTUUID=12345678-02 is the root",
+      "PARTUUID=12345678-02  /               ext4    defaults,noatime  0       1",
+      "",
+    ].join("\n");
+    const { text, edits } = rewriteFstab(fstab, [bootChange, rootChange]);
+    expect(text).toContain("UUID=EF56-7890  /boot/firmware  vfat");
+    expect(text).toContain("PARTUUID=87654321-03  /               ext4    defaults,noatime");
+    expect(text).toContain("# PARTUUID=12345678-02 is the root");
+    expect(edits.map((e) => e.to)).toEqual(["UUID=EF56-7890", "PARTUUID=87654321-03"]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { normalizeDevice } from "../src/lib/devices";
+import { normalizeDevice, normalizeLinuxDevice } from "../src/lib/devices";
 
 describe("normalizeDevice", () => {
   it("accepts /dev/diskN and returns both forms", () => {
@@ -20,3 +20,21 @@ describe("normalizeDevice", () => {
     expect(() => normalizeDevice("/dev/sda")).toThrow();
   });
 });
+
+describe("normalizeLinuxDevice", () => {
+  it("accepts whole SCSI/USB and SD/MMC disks; dd uses the same node", () => {
+    expect(normalizeLinuxDevice("/dev/sdb")).toEqual({ disk: "/dev/sdb", rdisk: "/dev/sdb" });
+    expect(normalizeLinuxDevice("/dev/mmcblk0")).toEqual({ disk: "/dev/mmcblk0", rdisk: "/dev/mmcblk0" });
+  });
+
+  it("refuses partitions and names the whole disk", () => {
+    expect(() => normalizeLinuxDevice("/dev/sdb1")).toThrow("/dev/sdb)");
+    expect(() => normalizeLinuxDevice("/dev/mmcblk0p2")).toThrow("/dev/mmcblk0)");
+  });
+
+  it("rejects other formats", () => {
+    expect(() => normalizeLinuxDevice("sdb")).toThrow();
+    expect(() => normalizeLinuxDevice("/dev/disk2")).toThrow();
+    expect(() => normalizeLinuxDevice("/dev/mmcblk0boot0")).toThrow();
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect } from "bun:test";
-import { parseDiskutilListDevices, isRemovableInfo, hasBootFatPartition, detectPiDisk, detectRemovableDisk } from "../src/lib/devices";
+import {
+  parseDiskutilListDevices, isRemovableInfo, hasBootFatPartition,
+  parseDiskutilInfo, diskutilInfoBytes, parseDiskutilPartitions, parseLsblkDisks, lsblkHasBootFat, createDeviceProvider,
+  findDeviceHazards, type DeviceInfo, type DeviceProvider,
+} from "../src/lib/devices";
 import { RecordingExecutor, type ExecResult } from "../src/lib/executor";
 
 const sampleDiskutilList = `
@@ -58,32 +62,264 @@ describe("devices parse helpers", () => {
   });
 });
 
-describe("detectPiDisk / detectRemovableDisk (mocked)", () => {
-  it("returns the external removable with boot FAT for Pi", async () => {
-    const responder = (cmd: string[]): ExecResult => {
+const sampleLsblk = JSON.stringify({
+  blockdevices: [
+    { name: "loop0", type: "loop", fstype: "squashfs", label: null, mountpoint: "/snap/core/1" },
+    { name: "nvme0n1", type: "disk", fstype: null, label: null, mountpoint: null, children: [
+      { name: "nvme0n1p1", type: "part", fstype: "ext4", label: null, mountpoint: "/" },
+    ] },
+    { name: "sda", type: "disk", size: 15728640000, vendor: "SanDisk ", model: "Cruzer Blade", fstype: null, label: null, mountpoint: null, children: [
+      { name: "sda1", type: "part", fstype: "vfat", label: "STICK", mountpoint: "/media/pi/STICK" },
+    ] },
+    { name: "mmcblk0", type: "disk", size: "31914983424", vendor: null, model: null, fstype: null, label: null, mountpoint: null, children: [
+      { name: "mmcblk0p1", type: "part", fstype: "vfat", label: "bootfs", mountpoint: "/media/pi/bootfs" },
+      { name: "mmcblk0p2", type: "part", fstype: "ext4", label: "rootfs", mountpoint: "/media/pi/rootfs" },
+    ] },
+    { name: "mmcblk0boot0", type: "disk", fstype: null, label: null, mountpoint: null },
+  ],
+});
+
+function linuxHost(sysfs: Record<string, string>, extra?: (cmd: string[]) => ExecResult | undefined) {
+  return new RecordingExecutor((cmd: string[]): ExecResult => {
+    const s = (stdout: string): ExecResult => ({ code: 0, stdout, stderr: "" });
+    const custom = extra?.(cmd);
+    if (custom) return custom;
+    if (cmd[0] === "lsblk" && cmd[cmd.length - 1].startsWith("/dev/")) {
+      const name = cmd[cmd.length - 1].slice("/dev/".length);
+      return s(JSON.stringify({ blockdevices: JSON.parse(sampleLsblk).blockdevices.filter((d: { name: string }) => d.name === name) }));
+    }
+    if (cmd[0] === "lsblk") return s(sampleLsblk);
+    if (cmd[0] === "cat" && cmd[1] in sysfs) return s(`${sysfs[cmd[1]]}\n`);
+    if (cmd[0] === "cat") return { code: 1, stdout: "", stderr: "No such file or directory" };
+    return s("");
+  });
+}
+
+// Verbatim layout of diskutil on macOS 14, where TYPE ends where the NAME column starts
+const alignedListDisk4 = `/dev/disk4 (external, physical):
+   #:                       TYPE NAME                    SIZE       IDENTIFIER
+   0:     FDisk_partition_scheme                        *31.9 GB    disk4
+   1:             Windows_FAT_32 bootfs                  536.9 MB   disk4s1
+   2:                      Linux                         31.4 GB    disk4s2
+`;
+
+const infoDisk4 = `
+   Device Identifier:         disk4
+   Device Node:               /dev/disk4
+   Device / Media Name:       SD Card Reader
+   Disk Size:                 31.9 GB (31914983424 Bytes) (exactly 62333952 512-Byte-Units)
+   Removable Media:           Removable
+`;
+
+describe("diskutil details", () => {
+  it("reads info fields and the exact size", () => {
+    const fields = parseDiskutilInfo(infoDisk4);
+    expect(fields["Device / Media Name"]).toBe("SD Card Reader");
+    expect(diskutilInfoBytes(fields)).toBe(31914983424);
+    expect(diskutilInfoBytes(parseDiskutilInfo(sampleInfoExternal))).toBeUndefined();
+  });
+
+  it("splits partitions into type and name by the header columns", () => {
+    expect(parseDiskutilPartitions(alignedListDisk4)).toEqual([
+      { id: "/dev/disk4s1", name: "bootfs", fstype: "Windows_FAT_32" },
+      { id: "/dev/disk4s2", name: undefined, fstype: "Linux" },
+    ]);
+    expect(hasBootFatPartition(alignedListDisk4)).toBe(true);
+  });
+
+  it("lists removable disks with their media name and volumes", async () => {
+    const exec = new RecordingExecutor((cmd: string[]): ExecResult => {
       const s = (stdout: string): ExecResult => ({ code: 0, stdout, stderr: "" });
-      if (cmd[0] === "diskutil" && cmd[1] === "list" && cmd.length === 2) return s(sampleDiskutilList);
-      if (cmd[0] === "diskutil" && cmd[1] === "info" && cmd[2] === "/dev/disk0") return s(sampleInfoInternal);
-      if (cmd[0] === "diskutil" && cmd[1] === "info" && cmd[2] === "/dev/disk2") return s(sampleInfoExternal);
-      if (cmd[0] === "diskutil" && cmd[1] === "list" && cmd[2] === "/dev/disk2") return s(sampleListDisk2);
-      if (cmd[0] === "diskutil" && cmd[1] === "list" && cmd[2] === "/dev/disk0") return s(sampleListDisk0);
+      if (cmd.join(" ") === "diskutil list") return s(`/dev/disk0 (internal, physical):\n${alignedListDisk4}`);
+      if (cmd.join(" ") === "diskutil info /dev/disk0") return s(sampleInfoInternal);
+      if (cmd.join(" ") === "diskutil info /dev/disk4") return s(infoDisk4);
+      if (cmd.join(" ") === "diskutil list /dev/disk4") return s(alignedListDisk4);
       return { code: 1, stdout: "", stderr: "unexpected command" };
-    };
-    const exec = new RecordingExecutor(responder);
-    const d = await detectPiDisk(exec);
-    expect(d).toBe("/dev/disk2");
+    });
+    const mac = createDeviceProvider("darwin");
+    const found = await mac.listRemovable(exec);
+    expect(found).toEqual([
+      {
+        disk: "/dev/disk4",
+        sizeBytes: 31914983424,
+        mediaName: "SD Card Reader",
+        volumes: parseDiskutilPartitions(alignedListDisk4),
+        piCard: true,
+        removable: true,
+        virtual: false,
+      },
+    ]);
+    expect(await mac.describe(exec, "/dev/disk4")).toEqual(found[0]);
+    await expect(mac.describe(exec, "/dev/disk9")).rejects.toThrow("No such disk: /dev/disk9");
+  });
+});
+
+describe("lsblk helpers", () => {
+  it("keeps whole sd and mmcblk disks only", () => {
+    expect(parseLsblkDisks(sampleLsblk).map((d) => d.name)).toEqual(["sda", "mmcblk0"]);
+  });
+
+  it("recognises boot and bootfs FAT partitions", () => {
+    const [sda, mmc] = parseLsblkDisks(sampleLsblk);
+    expect(lsblkHasBootFat(sda)).toBe(false);
+    expect(lsblkHasBootFat(mmc)).toBe(true);
+  });
+});
+
+describe("Linux device provider (mocked)", () => {
+  const linux = createDeviceProvider("linux");
+
+  it("lists a USB disk removable in sysfs and an SD card by its card type", async () => {
+    const exec = linuxHost({
+      "/sys/block/sda/removable": "1",
+      "/sys/block/mmcblk0/device/type": "SD",
+      "/sys/block/mmcblk0/device/name": "SD32G",
+    });
+    expect(await linux.listRemovable(exec)).toEqual([
+      {
+        disk: "/dev/sda",
+        sizeBytes: 15728640000,
+        vendor: "SanDisk",
+        model: "Cruzer Blade",
+        mediaName: undefined,
+        volumes: [{ id: "/dev/sda1", name: "STICK", fstype: "vfat" }],
+        piCard: false,
+        removable: true,
+        virtual: false,
+      },
+      {
+        disk: "/dev/mmcblk0",
+        sizeBytes: 31914983424,
+        vendor: undefined,
+        model: undefined,
+        mediaName: "SD32G",
+        volumes: [
+          { id: "/dev/mmcblk0p1", name: "bootfs", fstype: "vfat" },
+          { id: "/dev/mmcblk0p2", name: "rootfs", fstype: "ext4" },
+        ],
+        piCard: true,
+        removable: true,
+        virtual: false,
+      },
+    ]);
+  });
+
+  it("describes a single disk whether or not it is removable", async () => {
+    const exec = linuxHost({ "/sys/block/sda/removable": "0" });
+    const info = await linux.describe(exec, "/dev/sda");
+    expect(info.model).toBe("Cruzer Blade");
+    expect(info.volumes.map((v) => v.id)).toEqual(["/dev/sda1"]);
+    await expect(linux.describe(exec, "/dev/sdz")).rejects.toThrow("No such disk: /dev/sdz");
+  });
+
+  it("skips eMMC and fixed disks", async () => {
+    const exec = linuxHost({ "/sys/block/sda/removable": "0", "/sys/block/mmcblk0/device/type": "MMC" });
+    expect(await linux.listRemovable(exec)).toEqual([]);
+  });
+
+  it("reads the size in 512-byte sectors from sysfs", async () => {
+    const exec = linuxHost({ "/sys/block/mmcblk0/size": "62333952" });
+    expect(await linux.sizeBytes(exec, "/dev/mmcblk0")).toBe(62333952 * 512);
+    await expect(linux.sizeBytes(exec, "/dev/sda")).rejects.toThrow("Failed to query disk size");
   });
 
-  it("returns first removable device for generic removable", async () => {
-    const responder = (cmd: string[]): ExecResult => {
+  it("unmounts every mounted partition of the disk", async () => {
+    const exec = linuxHost({});
+    await linux.unmount(exec, "/dev/mmcblk0");
+    const umounts = exec.calls.filter((c) => c.cmd[1] === "umount").map((c) => c.cmd.join(" "));
+    expect(umounts).toEqual(["sudo umount /dev/mmcblk0p1", "sudo umount /dev/mmcblk0p2"]);
+  });
+
+  it("stops when a volume cannot be unmounted", async () => {
+    const exec = linuxHost({}, (cmd) => (cmd[1] === "umount" ? { code: 32, stdout: "", stderr: "target is busy." } : undefined));
+    await expect(linux.unmount(exec, "/dev/mmcblk0")).rejects.toThrow("Cannot unmount /dev/mmcblk0p1 (mounted at /media/pi/bootfs): target is busy.");
+  });
+
+  it("spells block sizes for GNU dd", () => {
+    expect(linux.ddBlockSize("4m")).toBe("4M");
+    expect(createDeviceProvider("darwin").ddBlockSize("4M")).toBe("4m");
+  });
+});
+
+describe("createDeviceProvider", () => {
+  it("rejects platforms without a device backend", () => {
+    expect(() => createDeviceProvider("win32")).toThrow("not supported on win32");
+  });
+});
+
+describe("disksHolding", () => {
+  it("follows an APFS root volume to its physical store on macOS", async () => {
+    const exec = new RecordingExecutor((cmd: string[]): ExecResult => {
       const s = (stdout: string): ExecResult => ({ code: 0, stdout, stderr: "" });
-      if (cmd[0] === "diskutil" && cmd[1] === "list" && cmd.length === 2) return s(sampleDiskutilList);
-      if (cmd[0] === "diskutil" && cmd[1] === "info" && cmd[2] === "/dev/disk0") return s(sampleInfoInternal);
-      if (cmd[0] === "diskutil" && cmd[1] === "info" && cmd[2] === "/dev/disk2") return s(sampleInfoExternal);
+      if (cmd[0] === "df") return s("Filesystem     512-blocks Used Available Capacity Mounted on\n/dev/disk3s1s1  965595304 20 1 1% /\n");
+      if (cmd.join(" ") === "diskutil info /dev/disk3s1s1") {
+        return s("   Part of Whole:             disk3\n   APFS Physical Store:       disk0s2\n");
+      }
       return { code: 1, stdout: "", stderr: "unexpected command" };
-    };
-    const exec = new RecordingExecutor(responder);
-    const d = await detectRemovableDisk(exec);
-    expect(d).toBe("/dev/disk2");
+    });
+    expect(await createDeviceProvider("darwin").disksHolding(exec, "/")).toEqual(["/dev/disk3", "/dev/disk0"]);
+  });
+
+  it("walks LVM and LUKS layers down to the disks on Linux", async () => {
+    const inverse = { blockdevices: [{ name: "vg-root", type: "lvm", children: [
+      { name: "luks", type: "crypt", children: [{ name: "nvme0n1p3", type: "part", children: [{ name: "nvme0n1", type: "disk" }] }] },
+    ] }] };
+    const exec = linuxHost({}, (cmd) => {
+      if (cmd[0] === "findmnt") return { code: 0, stdout: "/dev/mapper/vg-root\n", stderr: "" };
+      if (cmd.includes("--inverse")) return { code: 0, stdout: JSON.stringify(inverse), stderr: "" };
+      return undefined;
+    });
+    expect(await createDeviceProvider("linux").disksHolding(exec, "/")).toEqual(["/dev/nvme0n1"]);
+  });
+
+  it("finds no disk behind an overlay root", async () => {
+    const exec = linuxHost({}, (cmd) => (cmd[0] === "findmnt" ? { code: 0, stdout: "overlay\n", stderr: "" } : undefined));
+    expect(await createDeviceProvider("linux").disksHolding(exec, "/")).toEqual([]);
+  });
+});
+
+describe("findDeviceHazards", () => {
+  const sdCard: DeviceInfo = {
+    disk: "/dev/sdb",
+    sizeBytes: 31914983424,
+    volumes: [{ id: "/dev/sdb1", name: "bootfs", fstype: "vfat" }],
+    piCard: true,
+    removable: true,
+    virtual: false,
+  };
+  const exec = new RecordingExecutor();
+  // Only disksHolding is consulted; the root is on /dev/nvme0n1 and the current directory on /dev/sdc
+  const holding = { disksHolding: async (_exe: unknown, path: string) => (path === "/" ? ["/dev/nvme0n1"] : ["/dev/sdc"]) } as unknown as DeviceProvider;
+  const codes = async (info: DeviceInfo, maxSize?: string) =>
+    (await findDeviceHazards(exec, holding, info, { maxSize, paths: ["/", "/home/pi/images"] })).map((h) => h.code);
+
+  it("accepts a removable SD card", async () => {
+    expect(await codes(sdCard)).toEqual([]);
+  });
+
+  it("flags internal disks and the disk holding the root volume", async () => {
+    const hazards = await findDeviceHazards(exec, holding, { ...sdCard, disk: "/dev/nvme0n1", removable: false }, { paths: ["/"] });
+    expect(hazards.map((h) => h.code)).toEqual(["NOT_REMOVABLE", "SYSTEM_DISK"]);
+    expect(hazards[1].message).toBe("/dev/nvme0n1 holds the root volume");
+  });
+
+  it("flags the disk holding the current directory", async () => {
+    const [hazard] = await findDeviceHazards(exec, holding, { ...sdCard, disk: "/dev/sdc" }, { paths: ["/", "/home/pi/images"] });
+    expect(hazard.message).toBe("/dev/sdc holds the current directory (/home/pi/images)");
+  });
+
+  it("applies the size cap, 256GB by default and configurable", async () => {
+    const big = { ...sdCard, sizeBytes: 512e9 };
+    expect(await codes(big)).toEqual(["TOO_LARGE"]);
+    expect(await codes(big, "1TB")).toEqual([]);
+    expect(await codes({ ...sdCard, sizeBytes: 256.06e9 })).toEqual([]); // a card sold as 256 GB
+    const [hazard] = await findDeviceHazards(exec, holding, { ...sdCard, sizeBytes: 300e9 }, { paths: ["/"] });
+    expect(hazard.message).toBe("/dev/sdb is 279.4 GiB, above the 256.0 GiB limit for SD cards (raise it with --max-device-size)");
+    await expect(codes(big, "lots")).rejects.toThrow("Invalid size: lots");
+  });
+
+  it("flags synthesized disks and disks carrying APFS", async () => {
+    expect(await codes({ ...sdCard, virtual: true })).toEqual(["APFS_CONTAINER"]);
+    expect(await codes({ ...sdCard, volumes: [{ id: "/dev/disk4s2", fstype: "Apple_APFS" }] })).toEqual(["APFS_CONTAINER"]);
   });
 });
@@ -1,14 +1,109 @@
 import { describe, it, expect } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { RecordingExecutor } from "../src/lib/executor";
-import { runWorker } from "../src/lib/docker";
+import { ensureImage, runWorker, WORKER_HASH_LABEL, workerHash } from "../src/lib/docker";
+import { JOB_PROTOCOL, type ResizeJob } from "../src/lib/job";
+
+const job: ResizeJob = { protocol: JOB_PROTOCOL, mode: "inspect", image: "a.img", dryRun: false, verbose: false };
 
 describe("docker wrapper", () => {
   it("builds docker run arguments", async () => {
     const rec = new RecordingExecutor({ code: 0, stdout: "", stderr: "" });
-    await runWorker(rec, { image: "img:latest", workdir: "/tmp", env: { A: "1", B: "two" } });
+    await runWorker(rec, { image: "img:latest", workdir: mkdtempSync(join(tmpdir(), "rpi-tool-")), job });
     const call = rec.calls[0];
     expect(call.cmd[0]).toBe("docker");
     expect(call.cmd.includes("-v")).toBeTruthy();
     expect(call.cmd.includes("img:latest")).toBeTruthy();
+    expect(call.cmd.includes("-e")).toBeFalsy();
+  });
+
+  it("hands the job to the worker and reads back its result", async () => {
+    const workdir = mkdtempSync(join(tmpdir(), "rpi-tool-"));
+    let seen: unknown;
+    const rec = new RecordingExecutor(() => {
+      seen = JSON.parse(readFileSync(join(workdir, ".job.json"), "utf8"));
+      writeFileSync(join(workdir, ".result.json"), JSON.stringify({ protocol: JOB_PROTOCOL, mode: "inspect", ok: true }));
+      return { code: 0, stdout: "", stderr: "" };
+    });
+    const res = await runWorker(rec, { image: "img:latest", workdir, job });
+    expect(seen).toEqual(job);
+    expect(res.outcome).toEqual({ protocol: JOB_PROTOCOL, mode: "inspect", ok: true });
+    expect(existsSync(join(workdir, ".job.json"))).toBe(false);
+    expect(existsSync(join(workdir, ".result.json"))).toBe(false);
+  });
+
+  it("parses worker stdout into events", async () => {
+    const stdout = [
+      JSON.stringify({ type: "step-start", id: "1", title: "Attach image as loop device" }),
+      "plain text from a crash",
+      "",
+      JSON.stringify({ type: "error", code: "IMAGE_NOT_FOUND", message: "Image file not found: /work/a.img" }),
+    ].join("\n");
+    const seen: string[] = [];
+    const res = await runWorker(new RecordingExecutor({ code: 1, stdout, stderr: "" }), {
+      image: "img:latest",
+      workdir: mkdtempSync(join(tmpdir(), "rpi-tool-")),
+      job,
+      onEvent: (e) => seen.push(e.type),
+    });
+    expect(res.code).toBe(1);
+    expect(res.outcome).toBeUndefined();
+    expect(res.events).toEqual([
+      { type: "step-start", id: "1", title: "Attach image as loop device" },
+      { type: "log", level: "info", message: "plain text from a crash" },
+      { type: "error", code: "IMAGE_NOT_FOUND", message: "Image file not found: /work/a.img" },
+    ]);
+    expect(seen).toEqual(["step-start", "log", "error"]);
+  });
+});
+
+describe("ensureImage", () => {
+  // docker image inspect answers with "<id> <hash label>" for the tagged image, "<id>" after a build
+  const docker = (tagged?: string) => new RecordingExecutor((cmd) => {
+    if (cmd[1] === "image" && cmd[2] === "inspect") {
+      return tagged === undefined ? { code: 1, stdout: "", stderr: "No such image" } : { code: 0, stdout: `${tagged}\n`, stderr: "" };
+    }
+    if (cmd[1] === "build") tagged = "sha256:new";
+    return { code: 0, stdout: "", stderr: "" };
+  });
+  const commands = (rec: RecordingExecutor) => rec.calls.map((c) => c.cmd.slice(0, 3).join(" "));
+
+  it("hashes the embedded Dockerfile and worker together", () => {
+    expect(workerHash("FROM a", "x")).toMatch(/^[0-9a-f]{16}$/);
+    expect(workerHash("FROM a", "x")).not.toBe(workerHash("FROM a", "y"));
+    expect(workerHash("FROM a", "x")).not.toBe(workerHash("FROM ax", ""));
+  });
+
+  it("keeps an image built from the same resources", async () => {
+    const rec = docker(`sha256:old ${workerHash()}`);
+    await ensureImage(rec, "img:latest");
+    expect(commands(rec)).toEqual(["docker image inspect"]);
+  });
+
+  it("labels a first build with the hash", async () => {
+    const rec = docker();
+    await ensureImage(rec, "img:latest");
+    const build = rec.calls.find((c) => c.cmd[1] === "build")!;
+    expect(build.cmd.slice(2, 4)).toEqual(["--label", `${WORKER_HASH_LABEL}=${workerHash()}`]);
+    expect(commands(rec)).not.toContain("docker image rm");
+  });
+
+  it("rebuilds a stale image and removes the old one", async () => {
+    const rec = docker("sha256:old 0123456789abcdef");
+    await ensureImage(rec, "img:latest");
+    expect(rec.calls.some((c) => c.cmd[1] === "build")).toBe(true);
+    expect(rec.calls[rec.calls.length - 2].cmd).toEqual(["docker", "image", "rm", "sha256:old"]);
+  });
+
+  it("rebuilds on request but keeps an identical cached result", async () => {
+    const rec = new RecordingExecutor((cmd) => {
+      if (cmd[2] !== "inspect") return { code: 0, stdout: "", stderr: "" };
+      return { code: 0, stdout: cmd[4] === "{{.Id}}" ? "sha256:same\n" : `sha256:same ${workerHash()}\n`, stderr: "" };
+    });
+    await ensureImage(rec, "img:latest", { rebuild: true });
+    expect(rec.calls.some((c) => c.cmd[1] === "build")).toBe(true);
+    expect(commands(rec)).not.toContain("docker image rm");
   });
 });
@@ -11,6 +11,9 @@ export interface TestImageConfig {
   targetSizeMB?: number;
   bootSizeMB: number;
   freeTailMB?: number;
+  labelType?: "dos" | "gpt";
+  shrinkToMin?: boolean;
+  headroom?: string;
   verbose?: boolean;
   snapshot?: boolean;
 }
@@ -77,6 +80,15 @@ export async function runDockerTest(
     env.FREE_TAIL_MB = config.freeTailMB.toString();
   }
 
+  if (config.labelType) {
+    env.LABEL_TYPE = config.labelType;
+  }
+
+  if (config.shrinkToMin) {
+    env.SHRINK_TO_MIN = "1";
+    if (config.headroom) env.HEADROOM = config.headroom;
+  }
+
   // FAST_MOVE deprecated: rsync-only strategy; no env needed
 
   const envArgs = Object.entries(env).flatMap(([key, value]) => [
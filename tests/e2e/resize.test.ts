@@ -15,6 +15,7 @@ import {
   dockerImageExists,
   type SnapshotFiles,
 } from "./helpers";
+import { parseSfdiskDump } from "../../src/lib/sfdisk";
 
 const IMAGE_TAG = "rpi-image-resizer-test";
 const TEST_TIMEOUT = 300000; // 5 minutes per test
@@ -47,6 +48,9 @@ describe("Image Resize E2E Tests", () => {
       "test.img",
       "test-expand.img",
       "test-shrink.img",
+      "test-gpt.img",
+      "test-min.img",
+      "ptdump-*.txt",
       "*.img.*.decompressed_*.img",
     ]);
   });
@@ -99,6 +103,12 @@ describe("Image Resize E2E Tests", () => {
       // Cleanup snapshots
       await cleanupSnapshots(snapshots);
 
+      // Disk identifier (PARTUUID prefix in cmdline.txt) must survive every table rewrite
+      const preTable = parseSfdiskDump(await Bun.file("ptdump-pre.txt").text());
+      const postTable = parseSfdiskDump(await Bun.file("ptdump-post.txt").text());
+      expect(preTable.labelId).toBe("0x12345678");
+      expect(postTable.labelId).toBe("0x12345678");
+
       console.log("[E2E] Test 1: PASSED\n");
 
       // Geometry assertions (boot/root sizes)
@@ -232,6 +242,109 @@ describe("Image Resize E2E Tests", () => {
     },
     TEST_TIMEOUT
   );
+
+  test(
+    "Test 4: GPT boot expansion with root move (64MB→256MB boot)",
+    async () => {
+      console.log("\n========================================");
+      console.log("TEST 4: GPT boot expansion with root move");
+      console.log("GPT label, boot 64MB→256MB");
+      console.log("Table must stay GPT with GUIDs and names preserved");
+      console.log("========================================\n");
+
+      const snapshots: SnapshotFiles = {
+        rootPre: join(process.cwd(), "snapshot-pre.txt"),
+        rootPost: join(process.cwd(), "snapshot-post.txt"),
+        bootPre: join(process.cwd(), "snapshot-boot-pre.txt"),
+        bootPost: join(process.cwd(), "snapshot-boot-post.txt"),
+      };
+
+      const result = await runDockerTest(IMAGE_TAG, {
+        filename: "test-gpt.img",
+        initialSizeMB: 700,
+        bootSizeMB: 256,
+        labelType: "gpt",
+        snapshot: true,
+        verbose: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("[TEST] All done.");
+      expect(result.output).toContain("[SUMMARY] Partition table type: gpt");
+
+      const { rootValid, bootValid } = await validateSnapshots(snapshots);
+      expect(rootValid).toBe(true);
+      expect(bootValid).toBe(true);
+      await cleanupSnapshots(snapshots);
+
+      // Partition GUIDs, type GUIDs, names and disk GUID survive the rewrite
+      const pre = parseSfdiskDump(await Bun.file("ptdump-pre.txt").text());
+      const post = parseSfdiskDump(await Bun.file("ptdump-post.txt").text());
+      expect(post.label).toBe("gpt");
+      expect(post.labelId).toBe(pre.labelId);
+      for (const n of [1, 2]) {
+        const a = pre.partitions.find((p) => p.number === n)!;
+        const b = post.partitions.find((p) => p.number === n)!;
+        expect(b.uuid).toBe(a.uuid);
+        expect(b.type).toBe(a.type);
+        expect(b.name).toBe(a.name);
+      }
+      await cleanupTestImages(["ptdump-pre.txt", "ptdump-post.txt"]);
+
+      const sizes = parseSummarySizes(result.output);
+      expect(sizes.bootMB).toBeGreaterThan(250);
+      expect(sizes.bootMB).toBeLessThan(262);
+
+      console.log("[E2E] Test 4: PASSED\n");
+    },
+    TEST_TIMEOUT
+  );
+
+  test(
+    "Test 5: Shrink to minimum (700MB image, ~150MB data, 64MB headroom)",
+    async () => {
+      console.log("\n========================================");
+      console.log("TEST 5: Shrink to minimum");
+      console.log("Root shrinks to resize2fs -P minimum + headroom");
+      console.log("Image truncated after the last partition");
+      console.log("========================================\n");
+
+      const snapshots: SnapshotFiles = {
+        rootPre: join(process.cwd(), "snapshot-pre.txt"),
+        rootPost: join(process.cwd(), "snapshot-post.txt"),
+        bootPre: join(process.cwd(), "snapshot-boot-pre.txt"),
+        bootPost: join(process.cwd(), "snapshot-boot-post.txt"),
+      };
+
+      const result = await runDockerTest(IMAGE_TAG, {
+        filename: "test-min.img",
+        initialSizeMB: 700,
+        bootSizeMB: 64,
+        shrinkToMin: true,
+        headroom: "64MB",
+        snapshot: true,
+        verbose: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("[TEST] All done.");
+
+      const { rootValid, bootValid } = await validateSnapshots(snapshots);
+      expect(rootValid).toBe(true);
+      expect(bootValid).toBe(true);
+      await cleanupSnapshots(snapshots);
+
+      const sizes = parseSummarySizes(result.output);
+      // 150MB of data + metadata + 64MB headroom, far below the original 700MB
+      expect(sizes.imageMB).toBeLessThan(450);
+      expect(sizes.rootMB).toBeGreaterThan(200);
+      // Image ends right after root
+      expect(sizes.imageMB).toBeLessThan(sizes.bootMB + sizes.rootMB + 6);
+
+      console.log("[E2E] Test 5: PASSED\n");
+    },
+    TEST_TIMEOUT
+  );
 });
 
 // Helper to parse partition summary lines emitted by worker (verbose mode)
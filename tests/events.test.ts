@@ -0,0 +1,60 @@
+import { describe, it, expect } from "bun:test";
+import { lineSplitter, parseE2fsckProgress, parseE2imageProgress, parseRsyncProgress, parseWorkerEvent } from "../src/lib/events";
+import { ProgressRenderer } from "../src/lib/progress";
+
+describe("parseWorkerEvent", () => {
+  it("reads JSON events and wraps other lines as info logs", () => {
+    expect(parseWorkerEvent('{"type":"progress","percent":42}')).toEqual({ type: "progress", percent: 42 });
+    expect(parseWorkerEvent("{not json")).toEqual({ type: "log", level: "info", message: "{not json" });
+    expect(parseWorkerEvent("   ")).toBeUndefined();
+  });
+});
+
+describe("lineSplitter", () => {
+  it("joins chunks and splits on carriage returns", () => {
+    const lines: string[] = [];
+    const split = lineSplitter((l) => lines.push(l));
+    split.push("1 10 ");
+    split.push("100\r1 20 100\r\n2 0 50\nrest");
+    split.end();
+    expect(lines).toEqual(["1 10 100", "1 20 100", "2 0 50", "rest"]);
+  });
+});
+
+describe("progress parsers", () => {
+  it("weights e2fsck passes equally", () => {
+    expect(parseE2fsckProgress("1 50 100")).toBe(10);
+    expect(parseE2fsckProgress("5 100 100")).toBe(100);
+    expect(parseE2fsckProgress("Pass 1: Checking inodes")).toBeUndefined();
+  });
+
+  it("reads rsync and e2image percentages", () => {
+    expect(parseRsyncProgress("     32,768,000  61%   31.25MB/s    0:00:01 (xfr#12, to-chk=3/40)")).toBe(61);
+    expect(parseRsyncProgress("sending incremental file list")).toBeUndefined();
+    expect(parseE2imageProgress("Copying 1024 / 4096 blocks (25%)")).toBe(25);
+  });
+});
+
+describe("ProgressRenderer", () => {
+  const run = (isTTY: boolean, verbose = false) => {
+    let text = "";
+    const r = new ProgressRenderer({ write: (s: string) => { text += s; }, isTTY }, verbose);
+    r.handle({ type: "step-start", id: "4.2", title: "Move p2 filesystem" });
+    r.handle({ type: "log", level: "info", message: "details" });
+    r.handle({ type: "progress", percent: 50 });
+    r.handle({ type: "log", level: "warn", message: "careful" });
+    r.handle({ type: "step-end", id: "4.2", ok: true, ms: 1234 });
+    return text;
+  };
+
+  it("prints one line per step without a terminal", () => {
+    expect(run(false)).toBe("▸ 4.2 Move p2 filesystem\n[WARN] careful\n✓ 4.2 Move p2 filesystem (1.2s)\n");
+    expect(run(false, true)).toContain("[INFO] details\n");
+  });
+
+  it("redraws a progress bar on a terminal", () => {
+    const text = run(true);
+    expect(text).toContain("▸ 4.2 Move p2 filesystem [############------------]  50%");
+    expect(text.endsWith("\r\x1b[K✓ 4.2 Move p2 filesystem (1.2s)\n")).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "bun:test";
+import { parseDumpe2fsHeader, parseResize2fsMinimum } from "../src/lib/ext4";
+
+const header = `dumpe2fs 1.47.0 (5-Feb-2023)
+Filesystem volume name:   rootfs
+Last mounted on:          /
+Filesystem UUID:          0b5c9f3e-1111-4222-8333-944455566677
+Filesystem magic number:  0xEF53
+Filesystem revision #:    1 (dynamic)
+Filesystem features:      has_journal ext_attr resize_inode dir_index filetype needs_recovery extent flex_bg sparse_super large_file huge_file dir_nlink extra_isize metadata_csum
+Default mount options:    user_xattr acl
+Filesystem state:         clean
+Errors behavior:          Remount read-only
+Inode count:              131072
+Block count:              524288
+Reserved block count:     26214
+Block size:               4096
+Inode size:               256
+Maximum mount count:      -1
+Check interval:           0 (<none>)
+Journal size:             64M
+`;
+
+describe("parseDumpe2fsHeader", () => {
+  it("extracts the UUID and geometry", () => {
+    expect(parseDumpe2fsHeader(header)).toEqual({ uuid: "0b5c9f3e-1111-4222-8333-944455566677", blockSize: 4096, blockCount: 524288 });
+  });
+
+  it("treats a <none> UUID as unset", () => {
+    expect(parseDumpe2fsHeader("Filesystem UUID:          <none>\n").uuid).toBeUndefined();
+  });
+});
+
+describe("parseResize2fsMinimum", () => {
+  it("reads the estimated minimum block count", () => {
+    expect(parseResize2fsMinimum("resize2fs 1.47.0 (5-Feb-2023)\nEstimated minimum size of the filesystem: 140211\n")).toBe(140211);
+  });
+
+  it("throws on unexpected output", () => {
+    expect(() => parseResize2fsMinimum("resize2fs: Bad magic number in super-block")).toThrow();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "bun:test";
+import { detectExpandMechanism, addExpandToCmdline, removeExpandFromCmdline, RASPI_FIRSTBOOT, RASPI_INIT_RESIZE, EXPAND_SCRIPT, EXPAND_UNIT_PATH } from "../src/lib/firstboot";
+import { parseOsRelease } from "../src/lib/osrelease";
+
+const cmdline = "console=serial0,115200 console=tty1 root=PARTUUID=12345678-02 rootfstype=ext4 rootwait\n";
+
+describe("detectExpandMechanism", () => {
+  it("prefers the Bookworm firstboot hook", () => {
+    const files = new Set([RASPI_FIRSTBOOT, RASPI_INIT_RESIZE]);
+    expect(detectExpandMechanism((p) => files.has(p), cmdline)).toEqual({ kind: "raspi-firstboot", init: RASPI_FIRSTBOOT });
+  });
+
+  it("uses init_resize.sh on older Raspberry Pi OS", () => {
+    const files = new Set([RASPI_INIT_RESIZE]);
+    expect(detectExpandMechanism((p) => files.has(p), cmdline).kind).toBe("raspi-init-resize");
+  });
+
+  it("falls back to the systemd unit for other distros or a foreign init=", () => {
+    expect(detectExpandMechanism(() => false, cmdline).kind).toBe("systemd");
+    expect(detectExpandMechanism(() => true, `${cmdline.trim()} init=/sbin/custom`).kind).toBe("systemd");
+  });
+});
+
+describe("cmdline.txt editing", () => {
+  it("adds the hook once and keeps the trailing newline", () => {
+    const once = addExpandToCmdline(cmdline, RASPI_INIT_RESIZE);
+    expect(once).toBe(`${cmdline.trim()} init=${RASPI_INIT_RESIZE}\n`);
+    expect(addExpandToCmdline(once, RASPI_INIT_RESIZE)).toBe(once);
+  });
+
+  it("removes only resize hooks", () => {
+    const withHook = `${cmdline.trim()} quiet init=${RASPI_FIRSTBOOT} splash\n`;
+    expect(removeExpandFromCmdline(withHook)).toBe(`${cmdline.trim()} quiet splash\n`);
+    expect(removeExpandFromCmdline(`${cmdline.trim()} init=/sbin/custom`)).toContain("init=/sbin/custom");
+  });
+});
+
+describe("systemd expand unit", () => {
+  it("removes itself after running", () => {
+    expect(EXPAND_SCRIPT).toContain("resize2fs");
+    expect(EXPAND_SCRIPT).toContain(EXPAND_UNIT_PATH);
+  });
+});
+
+describe("parseOsRelease", () => {
+  it("parses quoted and bare values", () => {
+    const os = parseOsRelease('PRETTY_NAME="Debian GNU/Linux 12 (bookworm)"\nID=debian\nVERSION_ID="12"\n# comment\n');
+    expect(os.PRETTY_NAME).toBe("Debian GNU/Linux 12 (bookworm)");
+    expect(os.ID).toBe("debian");
+    expect(os.VERSION_ID).toBe("12");
+  });
+});
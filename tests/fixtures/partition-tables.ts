@@ -0,0 +1,39 @@
+// Generated independently of src/lib/partition-table.ts (Python struct + zlib.crc32).
+// Each fixture lists the non-zero byte runs of its sectors; everything else is zero.
+
+export type SectorFixture = { totalSectors: number; runs: { lba: number; offset: number; hex: string }[] };
+
+export const dos: SectorFixture = {
+  totalSectors: 4186112,
+  runs: [
+    { lba: 0, offset: 0, hex: "faebfe" },
+    { lba: 0, offset: 440, hex: "daa33d5e000080feffff0cfeffff002000000000080000feffff83feffff0020080000c037" },
+    { lba: 0, offset: 510, hex: "55aa" },
+  ],
+};
+
+export const dosExtended: SectorFixture = {
+  totalSectors: 7872512,
+  runs: [
+    { lba: 0, offset: 440, hex: "fecaad0b000080feffff0cfeffff002000000000080000feffff83feffff002008000000400000feffff05feffff00204800000030" },
+    { lba: 0, offset: 510, hex: "55aa" },
+    { lba: 4726784, offset: 447, hex: "feffff82feffff000800000000100000feffff05feffff0008100000f81f" },
+    { lba: 4726784, offset: 510, hex: "55aa" },
+    { lba: 5777408, offset: 447, hex: "feffff83feffff0008000000f01f" },
+    { lba: 5777408, offset: 510, hex: "55aa" },
+  ],
+};
+
+export const gpt: SectorFixture = {
+  totalSectors: 8192,
+  runs: [
+    { lba: 0, offset: 448, hex: "0200eefeffff01000000ff1f" },
+    { lba: 0, offset: 510, hex: "55aa" },
+    { lba: 1, offset: 0, hex: "4546492050415254000001005c00000010fbd74b000000000100000000000000ff1f0000000000002200000000000000de1f0000000000008e0b6f3a4c6b3e4f9d1c2b7e5a4c9f1002000000000000008000000080000000ebe7894d" },
+    { lba: 2, offset: 0, hex: "28732ac11ff8d211ba4b00a0c93ec93b3e2d1c0b504f17468293a4b5c6d7e8f90008000000000000ff0f000000000000040000000000000062006f006f0074" },
+    { lba: 2, offset: 128, hex: "af3dc60f838472478e793d69d8477de43f2e1d6c5b4a6d4c8e7f901a2b3c4d5e0010000000000000dd1f000000000000000000000000009072006f006f007400660073" },
+    { lba: 8159, offset: 0, hex: "28732ac11ff8d211ba4b00a0c93ec93b3e2d1c0b504f17468293a4b5c6d7e8f90008000000000000ff0f000000000000040000000000000062006f006f0074" },
+    { lba: 8159, offset: 128, hex: "af3dc60f838472478e793d69d8477de43f2e1d6c5b4a6d4c8e7f901a2b3c4d5e0010000000000000dd1f000000000000000000000000009072006f006f007400660073" },
+    { lba: 8191, offset: 0, hex: "4546492050415254000001005c00000040cfbb3400000000ff1f00000000000001000000000000002200000000000000de1f0000000000008e0b6f3a4c6b3e4f9d1c2b7e5a4c9f10df1f0000000000008000000080000000ebe7894d" },
+  ],
+};
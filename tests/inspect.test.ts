@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import { buildInspectReport, extractInspectProbe, formatInspectReport, parseDfBytes, type InspectProbe } from "../src/lib/inspect";
+import { parseSfdiskDump } from "../src/lib/sfdisk";
+
+const table = parseSfdiskDump(`label: dos
+label-id: 0x5e3da3da
+/dev/loop0p1 : start=8192, size=1048576, type=c, bootable
+/dev/loop0p2 : start=1056768, size=7331840, type=83
+`);
+
+const probe: InspectProbe = {
+  filesystems: [
+    { number: 1, type: "vfat", uuid: "5DE4-665C", label: "bootfs", partuuid: "5e3da3da-01", sizeBytes: 535805952, usedBytes: 53477376, freeBytes: 482328576 },
+    { number: 2, type: "ext4", uuid: "2e4c4b12-9f6c-4f36-9a53-5b1e2c7d8e90", label: "rootfs", partuuid: "5e3da3da-02", sizeBytes: 3690987520, usedBytes: 2576980378, freeBytes: 923417088 },
+  ],
+  os: { PRETTY_NAME: "Debian GNU/Linux 12 (bookworm)", ID: "debian", VERSION_ID: "12", VERSION_CODENAME: "bookworm" },
+  bootFiles: ["bcm2712-rpi-5-b.dtb", "cmdline.txt", "config.txt", "kernel8.img", "overlays/"],
+};
+
+describe("parseDfBytes", () => {
+  it("reads size, used and available bytes", () => {
+    const out = "     1B-blocks       Used      Avail\n  535805952   53477376  482328576\n";
+    expect(parseDfBytes(out)).toEqual({ sizeBytes: 535805952, usedBytes: 53477376, freeBytes: 482328576 });
+  });
+
+  it("throws on unexpected output", () => {
+    expect(() => parseDfBytes("df: /mnt: No such file\n")).toThrow(/df output/);
+  });
+});
+
+describe("extractInspectProbe", () => {
+  it("finds the inspect event among worker logs", () => {
+    expect(extractInspectProbe([{ type: "log", level: "info", message: "something" }, { type: "inspect", probe }])).toEqual(probe);
+  });
+
+  it("throws when the worker reported nothing", () => {
+    expect(() => extractInspectProbe([{ type: "log", level: "info", message: "done" }])).toThrow(/did not report/);
+  });
+});
+
+describe("buildInspectReport", () => {
+  it("merges the table with filesystem probes", () => {
+    const r = buildInspectReport("raspios.img", 4294967296, table, probe);
+    expect(r.table).toEqual({ label: "dos", labelId: "0x5e3da3da" });
+    expect(r.partitions[0]).toEqual({
+      number: 1, start: 8192, end: 1056767, sectors: 1048576, sizeBytes: 536870912, type: "c", bootable: true, partuuid: "5e3da3da-01",
+      filesystem: { type: "vfat", label: "bootfs", uuid: "5DE4-665C", sizeBytes: 535805952, usedBytes: 53477376, freeBytes: 482328576 },
+    });
+    expect(r.os).toEqual({ prettyName: "Debian GNU/Linux 12 (bookworm)", id: "debian", versionId: "12", versionCodename: "bookworm" });
+    expect(r.bootFiles).toContain("config.txt");
+  });
+
+  it("leaves filesystem details out for unprobed partitions", () => {
+    const r = buildInspectReport("x.img", 1, table, { filesystems: [], bootFiles: [] });
+    expect(r.partitions[1].filesystem).toBeUndefined();
+    expect(r.os).toBeUndefined();
+  });
+});
+
+describe("formatInspectReport", () => {
+  it("prints a readable summary", () => {
+    const text = formatInspectReport(buildInspectReport("raspios.img", 4294967296, table, probe, ["Backup GPT header is missing or damaged"]));
+    expect(text).toContain("Image: raspios.img (4.0GB, 4294967296 bytes)");
+    expect(text).toContain("Partition table: dos (disk identifier 0x5e3da3da)");
+    expect(text).toMatch(/^1\*\s+8192\s+1056767\s+512\.0MB\s+c\s+vfat\s+bootfs\s+5DE4-665C\s+51\.0MB\s+460\.0MB$/m);
+    expect(text).toContain("OS: Debian GNU/Linux 12 (bookworm)");
+    expect(text).toContain("Boot files: bcm2712-rpi-5-b.dtb, cmdline.txt, config.txt, kernel8.img, overlays/");
+    expect(text).toContain("Warning: Backup GPT header is missing or damaged");
+  });
+});
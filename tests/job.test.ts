@@ -0,0 +1,46 @@
+import { describe, it, expect } from "bun:test";
+import { buildJobResult, DEFAULT_RESIZE_SETTINGS, JOB_PROTOCOL, parseResizeJob, type ResizeJob } from "../src/lib/job";
+import { parseSfdiskDump } from "../src/lib/sfdisk";
+
+const job: ResizeJob = {
+  protocol: JOB_PROTOCOL,
+  mode: "resize",
+  image: "raspios_202610190800.img",
+  dryRun: false,
+  verbose: true,
+  resize: { ...DEFAULT_RESIZE_SETTINGS, bootSizeMB: 512, imageSize: "32GB", addPartitions: ["data:ext4:1GB"] },
+};
+
+describe("parseResizeJob", () => {
+  it("accepts a job written by this protocol", () => {
+    expect(parseResizeJob(JSON.stringify(job))).toEqual(job);
+    const inspect = { protocol: JOB_PROTOCOL, mode: "inspect", image: "a.img", dryRun: false, verbose: false };
+    expect(parseResizeJob(JSON.stringify(inspect))).toEqual(inspect as ResizeJob);
+  });
+
+  it("rejects another protocol before looking at the fields", () => {
+    expect(() => parseResizeJob(JSON.stringify({ protocol: 2, mode: "shrink" }))).toThrow(/protocol 2 is not supported/);
+    expect(() => parseResizeJob(JSON.stringify({ image: "a.img" }))).toThrow(expect.objectContaining({ code: "INCOMPATIBLE_JOB" }));
+  });
+
+  it("names the field that is wrong", () => {
+    expect(() => parseResizeJob("{")).toThrow(/not valid JSON/);
+    expect(() => parseResizeJob(JSON.stringify({ ...job, image: "../a.img" }))).toThrow("Job field image must be a file name in the work directory");
+    expect(() => parseResizeJob(JSON.stringify({ ...job, resize: { ...job.resize, bootSizeMB: null } }))).toThrow("Job field resize.bootSizeMB must be a positive number");
+    expect(() => parseResizeJob(JSON.stringify({ ...job, resize: { ...job.resize, zeroFree: "1" } }))).toThrow(expect.objectContaining({ code: "INVALID_CONFIG" }));
+  });
+});
+
+describe("buildJobResult", () => {
+  it("reports the final layout or the error", () => {
+    const table = parseSfdiskDump("label: dos\n/dev/loop0p1 : start=8192, size=1048576, type=c\n");
+    expect(buildJobResult("resize", [
+      { type: "step-start", id: "6", title: "Final verification" },
+      { type: "layout", table, imageBytes: 4294967296 },
+    ])).toEqual({ protocol: JOB_PROTOCOL, mode: "resize", ok: true, layout: { table, imageBytes: 4294967296 } });
+    expect(buildJobResult(undefined, [{ type: "error", code: "INCOMPATIBLE_JOB", message: "Job protocol 2 is not supported" }])).toMatchObject({
+      ok: false,
+      error: { code: "INCOMPATIBLE_JOB", message: "Job protocol 2 is not supported" },
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { assertResumable, Journal, journalDir, planRollback, type JournalData, type JournalStart } from "../src/lib/journal";
+import { planResize } from "../src/lib/plan";
+import { parseSfdiskDump } from "../src/lib/sfdisk";
+
+const table = parseSfdiskDump(`label: dos
+label-id: 0x5e3da3da
+/dev/loop0p1 : start=8192, size=524288, type=c, bootable
+/dev/loop0p2 : start=532480, size=3653632, type=83
+`);
+const DISK = 8388608; // 4GB
+// backup-boot, move-fs, write-table x2, format-boot, restore-boot, write-table, grow-fs
+const plan = planResize({ table, bootNum: 1, rootNum: 2 }, DISK, { bootSizeMB: 512 });
+
+function journal(done: number, extra: Partial<JournalData> = {}): JournalData {
+  return {
+    version: 1,
+    image: "raspios.img",
+    startedAt: "2026-10-19T08:00:00.000Z",
+    imageBytes: DISK * 512,
+    rootFs: { blocks: 456704, blockSize: 4096 },
+    plan,
+    identities: { boot: {}, root: {} },
+    settings: { addFstab: false, expandOnBoot: false, zeroFree: false },
+    done: plan.operations.slice(0, done).map((_, i) => `op:${i}`),
+    rootFiles: [],
+    undone: 0,
+    ...extra,
+  };
+}
+
+describe("planRollback", () => {
+  it("reverses every operation of a finished layout change, newest first", () => {
+    const undo = planRollback(journal(plan.operations.length, { rootFiles: [{ path: "/etc/fstab", existed: true }] }));
+    expect(undo.map((u) => u.op)).toEqual([
+      "restore-root-files", "resize-fs", "write-table", "write-table", "write-table", "move-back", "restore-boot-image",
+    ]);
+    expect(undo[1]).toEqual({ op: "resize-fs", partition: 2, blocks: 456704 });
+    expect(undo.filter((u) => u.op === "write-table").map((u) => (u as { reason: string }).reason)).toEqual([
+      "undo grow root", "undo resize boot", "undo move root",
+    ]);
+    expect(undo[4]).toMatchObject({ table });
+    expect(undo[5]).toEqual({ op: "move-back", move: { number: 2, from: 1058816, to: 532480, size: 3653632 }, fs: true });
+    expect(undo[6]).toEqual({ op: "restore-boot-image", partition: 1, start: 8192 });
+  });
+
+  it("only undoes what finished, plus a safely interrupted step", () => {
+    expect(planRollback(journal(3)).map((u) => u.op)).toEqual(["write-table", "move-back", "restore-boot-image"]);
+    const growing = planRollback(journal(7, { current: "op:7" }));
+    expect(growing[0]).toEqual({ op: "resize-fs", partition: 2, blocks: 456704 });
+  });
+
+  it("leaves boot alone when its backup did not finish", () => {
+    expect(planRollback(journal(0, { current: "op:0" }))).toEqual([]);
+  });
+
+  it("shrinks root back from the size its partition grew it to", () => {
+    const grown = planResize({ table, bootNum: 1, rootNum: 2 }, DISK, { bootSizeMB: 256, imageSizeBytes: 8 * 1024 ** 3 });
+    const undo = planRollback({ ...journal(0), plan: grown, done: grown.operations.map((_, i) => `op:${i}`) });
+    expect(undo[0]).toEqual({ op: "resize-fs", partition: 2, blocks: 456704 });
+    expect(undo.slice(-2)).toEqual([
+      { op: "resize-image", bytes: DISK * 512 },
+      { op: "write-table", table, reason: "original layout" },
+    ]);
+  });
+
+  it("refuses to repeat or reverse an interrupted move", () => {
+    expect(() => planRollback(journal(1, { current: "op:1" }))).toThrow(/stopped while moving p2/);
+    expect(() => assertResumable(journal(1, { current: "op:1" }))).toThrow(/restore the image from its backup copy/);
+    expect(() => assertResumable(journal(7, { current: "op:7" }))).not.toThrow();
+  });
+});
+
+describe("Journal", () => {
+  const start: JournalStart = {
+    image: "raspios.img",
+    startedAt: "2026-10-19T08:00:00.000Z",
+    imageBytes: DISK * 512,
+    plan,
+    identities: { boot: {}, root: {} },
+    settings: { addFstab: false, expandOnBoot: true, zeroFree: false },
+  };
+
+  it("records steps as they start and finish and skips them on resume", async () => {
+    const image = join(mkdtempSync(join(tmpdir(), "rpi-tool-")), "raspios.img");
+    const j = Journal.create(image, start);
+    await j.step("op:0", async () => {
+      expect(Journal.load(image).data.current).toBe("op:0");
+    });
+    await expect(j.step("op:1", async () => { throw new Error("killed"); })).rejects.toThrow("killed");
+    const resumed = Journal.load(image);
+    expect(resumed.data.done).toEqual(["op:0"]);
+    expect(resumed.data.current).toBe("op:1");
+    let runs = 0;
+    await resumed.step("op:0", async () => { runs++; });
+    expect(runs).toBe(0);
+    expect(() => Journal.create(image, start)).toThrow(/unfinished resize/);
+    resumed.remove();
+    expect(existsSync(journalDir(image))).toBe(false);
+  });
+
+  it("rejects a journal written by another version", () => {
+    const image = join(mkdtempSync(join(tmpdir(), "rpi-tool-")), "raspios.img");
+    Journal.create(image, start);
+    const file = `${journalDir(image)}/journal.json`;
+    writeFileSync(file, JSON.stringify({ ...JSON.parse(readFileSync(file, "utf8")), version: 99 }));
+    expect(() => Journal.load(image)).toThrow(/version 99 is not supported/);
+    expect(() => Journal.load(join(tmpdir(), "missing.img"))).toThrow(/No resize journal found/);
+  });
+
+  it("puts back changed root files and removes created ones", () => {
+    const dir = mkdtempSync(join(tmpdir(), "rpi-tool-"));
+    const root = join(dir, "root");
+    mkdirSync(join(root, "etc"), { recursive: true });
+    writeFileSync(join(root, "etc/fstab"), "PARTUUID=5e3da3da-02 / ext4 defaults 0 1\n");
+    const j = Journal.create(join(dir, "raspios.img"), start);
+    j.preserve(root, "/etc/fstab");
+    j.preserve(root, "/forcefsck");
+    writeFileSync(join(root, "etc/fstab"), "changed\n");
+    writeFileSync(join(root, "forcefsck"), "");
+    j.preserve(root, "/etc/fstab"); // the first original is kept
+    j.restoreRootFiles(root);
+    expect(readFileSync(join(root, "etc/fstab"), "utf8")).toBe("PARTUUID=5e3da3da-02 / ext4 defaults 0 1\n");
+    expect(existsSync(join(root, "forcefsck"))).toBe(false);
+  });
+});
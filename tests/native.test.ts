@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RecordingExecutor } from "../src/lib/executor";
+import { DEFAULT_RESIZE_SETTINGS, JOB_PROTOCOL, type ResizeJob, type ResizeSettings } from "../src/lib/job";
+import { chooseNative, nativeTools, nativeUnavailable } from "../src/lib/native";
+import { runNative } from "../src/worker/worker";
+
+const resizeJob = (settings: Partial<ResizeSettings> = {}, dryRun = false): ResizeJob => ({
+  protocol: JOB_PROTOCOL, mode: "resize", image: "pi.img", dryRun, verbose: false,
+  resize: { ...DEFAULT_RESIZE_SETTINGS, ...settings },
+});
+
+describe("nativeTools", () => {
+  it("asks only for what the resize will call", () => {
+    const tools = nativeTools(resizeJob());
+    expect(tools).toEqual(expect.arrayContaining(["losetup", "kpartx", "sfdisk", "e2image", "mkfs.vfat", "rsync", "mount"]));
+    expect(tools).not.toContain("zerofree");
+    expect(tools).not.toContain("mkfs.ext4");
+    expect(tools).not.toContain("truncate");
+  });
+
+  it("follows the flags", () => {
+    expect(nativeTools(resizeJob({ zeroFree: true }))).toContain("zerofree");
+    expect(nativeTools(resizeJob({ imageSize: "8GB" }))).toContain("truncate");
+    const adding = nativeTools(resizeJob({ addPartitions: ["data:ext4:1G", "swap:swap:512M"] }));
+    expect(adding).toEqual(expect.arrayContaining(["mkfs.ext4", "mkswap", "truncate"]));
+  });
+
+  it("needs only the read side for a dry run", () => {
+    expect(nativeTools(resizeJob({}, true))).toEqual(["losetup", "kpartx", "partprobe", "blkid"]);
+    expect(nativeTools(resizeJob({ shrinkToMin: true }, true))).toContain("resize2fs");
+  });
+
+  it("lists everything a journal could ask for when resuming", () => {
+    expect(nativeTools(resizeJob({ resume: true }))).toEqual(expect.arrayContaining(["zerofree", "mkfs.ext4", "mkswap", "truncate"]));
+  });
+});
+
+describe("nativeUnavailable", () => {
+  const all = () => "/usr/sbin/tool";
+  const without = (missing: string[]) => (tool: string) => (missing.includes(tool) ? null : `/usr/sbin/${tool}`);
+
+  it("accepts root on Linux with every tool", () => {
+    expect(nativeUnavailable(resizeJob(), { platform: "linux", uid: 0, which: all })).toBeUndefined();
+  });
+
+  it("says what is missing", () => {
+    expect(nativeUnavailable(resizeJob(), { platform: "darwin", uid: 0, which: all })).toBe("native mode needs Linux (this is darwin)");
+    expect(nativeUnavailable(resizeJob(), { platform: "linux", uid: 1000, which: all })).toBe("native mode needs root to attach loop devices");
+    expect(nativeUnavailable(resizeJob(), { platform: "linux", uid: 0, which: without(["kpartx", "e2image"]) })).toBe("native mode needs kpartx, e2image on PATH");
+  });
+
+  it("rejects an added ext4 partition without mkfs.ext4", () => {
+    const host = { platform: "linux", uid: 0, which: without(["mkfs.ext4", "zerofree"]) };
+    expect(nativeUnavailable(resizeJob(), host)).toBeUndefined();
+    expect(nativeUnavailable(resizeJob({ addPartitions: ["data:ext4:1G"] }), host)).toBe("native mode needs mkfs.ext4 on PATH");
+  });
+});
+
+describe("chooseNative", () => {
+  const capable = { platform: "linux", uid: 0, which: () => "/usr/sbin/tool" };
+  const lacking = { ...capable, which: (tool: string) => (tool === "e2image" ? null : `/usr/sbin/${tool}`) };
+
+  it("runs natively on a capable host unless a runtime is named", () => {
+    expect(chooseNative(resizeJob(), { native: false }, capable)).toBe(true);
+    expect(chooseNative(resizeJob(), { native: false, runtime: "podman" }, capable)).toBe(false);
+  });
+
+  it("falls back to a container when the host cannot run the job", () => {
+    expect(chooseNative(resizeJob(), { native: false }, lacking)).toBe(false);
+    expect(chooseNative(resizeJob(), { native: false }, { ...capable, uid: 1000 })).toBe(false);
+  });
+
+  it("fails instead of falling back when --native was given", () => {
+    expect(chooseNative(resizeJob(), { native: true }, capable)).toBe(true);
+    expect(() => chooseNative(resizeJob(), { native: true }, lacking)).toThrow("--native: native mode needs e2image on PATH");
+  });
+});
+
+describe("runNative", () => {
+  const job: ResizeJob = { protocol: JOB_PROTOCOL, mode: "inspect", image: "missing.img", dryRun: false, verbose: false };
+
+  it("reports failures as events and a result instead of exiting", async () => {
+    const workdir = mkdtempSync(join(tmpdir(), "rpi-tool-"));
+    const seen: string[] = [];
+    const res = await runNative(new RecordingExecutor(), { workdir, job, onEvent: (e) => seen.push(e.type) });
+    expect(res.code).toBe(1);
+    expect(res.outcome?.error).toEqual({ code: "IMAGE_NOT_FOUND", message: `Image file not found: ${workdir}/missing.img` });
+    expect(seen).toEqual(["error"]);
+  });
+
+  it("validates the job like a container worker", async () => {
+    const res = await runNative(new RecordingExecutor(), { workdir: tmpdir(), job: { ...job, protocol: 99 } });
+    expect(res.outcome?.error?.code).toBe("INCOMPATIBLE_JOB");
+    expect(res.events.map((e) => e.type)).toEqual(["error"]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "bun:test";
+import { bufferReader, crc32, readPartitionTable, SECTOR_SIZE } from "../src/lib/partition-table";
+import { dos, dosExtended, gpt, type SectorFixture } from "./fixtures/partition-tables";
+
+// Sparse in-memory image: only the sectors a fixture touches are materialised
+function image(f: SectorFixture): Map<number, Uint8Array> {
+  const sectors = new Map<number, Uint8Array>();
+  for (const run of f.runs) {
+    const s = sectors.get(run.lba) ?? new Uint8Array(SECTOR_SIZE);
+    s.set(Uint8Array.from(Buffer.from(run.hex, "hex")), run.offset);
+    sectors.set(run.lba, s);
+  }
+  return sectors;
+}
+
+function reader(sectors: Map<number, Uint8Array>) {
+  return (lba: number, count: number) => {
+    const out = new Uint8Array(count * SECTOR_SIZE);
+    for (let i = 0; i < count; i++) {
+      const s = sectors.get(lba + i);
+      if (s) out.set(s, i * SECTOR_SIZE);
+    }
+    return out;
+  };
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("readPartitionTable (MBR)", () => {
+  it("reads primary partitions, types, active flag and disk identifier", () => {
+    const { table, warnings } = readPartitionTable(reader(image(dos)), dos.totalSectors);
+    expect(warnings).toEqual([]);
+    expect(table.label).toBe("dos");
+    expect(table.labelId).toBe("0x5e3da3da");
+    expect(table.partitions).toEqual([
+      { node: "", number: 1, start: 8192, size: 524288, type: "c", bootable: true },
+      { node: "", number: 2, start: 532480, size: 3653632, type: "83" },
+    ]);
+  });
+
+  it("follows the EBR chain for logical partitions", () => {
+    const { table } = readPartitionTable(reader(image(dosExtended)), dosExtended.totalSectors);
+    expect(table.partitions.map((p) => [p.number, p.start, p.size, p.type])).toEqual([
+      [1, 8192, 524288, "c"],
+      [2, 532480, 4194304, "83"],
+      [3, 4726784, 3145728, "5"],
+      [5, 4728832, 1048576, "82"],
+      [6, 5779456, 2093056, "83"],
+    ]);
+  });
+
+  it("rejects sectors without a boot signature", () => {
+    expect(() => readPartitionTable(bufferReader(new Uint8Array(4096)), 8)).toThrow(/boot signature/);
+  });
+});
+
+describe("readPartitionTable (GPT)", () => {
+  it("reads header, GUIDs, names and attributes", () => {
+    const { table, warnings } = readPartitionTable(reader(image(gpt)), gpt.totalSectors);
+    expect(warnings).toEqual([]);
+    expect(table).toMatchObject({ label: "gpt", labelId: "3A6F0B8E-6B4C-4F3E-9D1C-2B7E5A4C9F10", firstLba: 34, lastLba: 8158, tableLength: 128 });
+    expect(table.partitions).toEqual([
+      { node: "", number: 1, start: 2048, size: 2048, type: "C12A7328-F81F-11D2-BA4B-00A0C93EC93B", uuid: "0B1C2D3E-4F50-4617-8293-A4B5C6D7E8F9", name: "boot", attrs: "LegacyBIOSBootable" },
+      { node: "", number: 2, start: 4096, size: 4062, type: "0FC63DAF-8483-4772-8E79-3D69D8477DE4", uuid: "6C1D2E3F-4A5B-4C6D-8E7F-901A2B3C4D5E", name: "rootfs", attrs: "GUID:60,63" },
+    ]);
+  });
+
+  it("falls back to the backup header when the primary CRC is wrong", () => {
+    const sectors = image(gpt);
+    sectors.get(1)![60] ^= 0xff;
+    const { table, warnings } = readPartitionTable(reader(sectors), gpt.totalSectors);
+    expect(warnings[0]).toMatch(/Primary GPT unusable \(GPT header CRC mismatch/);
+    expect(table.partitions).toHaveLength(2);
+  });
+
+  it("falls back to the backup entries when the primary entry CRC is wrong", () => {
+    const sectors = image(gpt);
+    sectors.get(2)![40] ^= 0x01;
+    const { table, warnings } = readPartitionTable(reader(sectors), gpt.totalSectors);
+    expect(warnings[0]).toMatch(/entry CRC mismatch/);
+    expect(table.partitions[0].start).toBe(2048);
+  });
+
+  it("warns when the backup header is not at the end of the disk", () => {
+    const { warnings } = readPartitionTable(reader(image(gpt)), gpt.totalSectors + 2048);
+    expect(warnings[0]).toMatch(/Backup GPT header is at sector 8191/);
+  });
+
+  it("throws when both headers are damaged", () => {
+    const sectors = image(gpt);
+    sectors.get(1)![60] ^= 0xff;
+    sectors.get(8191)![60] ^= 0xff;
+    expect(() => readPartitionTable(reader(sectors), gpt.totalSectors)).toThrow(/No valid GPT header/);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "bun:test";
+import { appendFstabEntries, buildMkfsArgs, fstabEntry, parsePartitionSpec, partitionTypeId } from "../src/lib/partspec";
+import { addPartitionsAtEnd, parseSfdiskDump } from "../src/lib/sfdisk";
+
+describe("parsePartitionSpec", () => {
+  it("parses name, filesystem, size and default label", () => {
+    expect(parsePartitionSpec("data:ext4:4GB")).toEqual({ name: "data", fsType: "ext4", sizeSectors: 4 * 1024 * 2048, label: "data" });
+  });
+
+  it("accepts an explicit label and rounds sizes up to whole MiB", () => {
+    const s = parsePartitionSpec("scratch:vfat:1536K:SCRATCH");
+    expect(s.label).toBe("SCRATCH");
+    expect(s.sizeSectors).toBe(2 * 2048);
+  });
+
+  it("rejects malformed specs", () => {
+    expect(() => parsePartitionSpec("data:ext4")).toThrow(/expected name:fstype:size/);
+    expect(() => parsePartitionSpec("data:btrfs:1GB")).toThrow(/Unsupported filesystem/);
+    expect(() => parsePartitionSpec("data:ext4:lots")).toThrow(/Invalid size/);
+    expect(() => parsePartitionSpec("da ta:ext4:1GB")).toThrow(/Invalid partition name/);
+    expect(() => parsePartitionSpec("data:vfat:1GB:WAYTOOLONGLABEL")).toThrow(/Invalid label/);
+    expect(() => parsePartitionSpec("data:ext4:512K")).toThrow(/at least 1MB/);
+  });
+});
+
+describe("partition helpers", () => {
+  it("maps filesystems to MBR and GPT type ids", () => {
+    expect(partitionTypeId("dos", "ext4")).toBe("83");
+    expect(partitionTypeId("dos", "swap")).toBe("82");
+    expect(partitionTypeId("gpt", "vfat")).toBe("EBD0A0A2-B9E5-4433-87C0-68B6B72699C7");
+  });
+
+  it("builds mkfs commands", () => {
+    expect(buildMkfsArgs(parsePartitionSpec("data:ext4:1GB"), "/dev/loop0p3")).toEqual(["mkfs.ext4", "-F", "-L", "data", "/dev/loop0p3"]);
+    expect(buildMkfsArgs(parsePartitionSpec("media:vfat:1GB"), "/dev/loop0p3")).toEqual(["mkfs.vfat", "-F", "32", "-n", "MEDIA", "/dev/loop0p3"]);
+    expect(buildMkfsArgs(parsePartitionSpec("swap:swap:1GB"), "/dev/loop0p3")).toEqual(["mkswap", "-L", "swap", "/dev/loop0p3"]);
+  });
+
+  it("builds fstab entries", () => {
+    expect(fstabEntry(parsePartitionSpec("data:ext4:1GB"), "abcd")).toBe("UUID=abcd  /data  ext4  defaults,noatime  0  2");
+    expect(fstabEntry(parsePartitionSpec("swap:swap:1GB"), "abcd")).toBe("UUID=abcd  none  swap  sw  0  0");
+  });
+});
+
+describe("appendFstabEntries", () => {
+  const fstab = "proc  /proc  proc  defaults  0  0\nPARTUUID=12345678-02  /  ext4  defaults,noatime  0  1\n# /data was here\n";
+
+  it("appends new entries", () => {
+    const res = appendFstabEntries(fstab, ["UUID=abcd  /data  ext4  defaults,noatime  0  2"]);
+    expect(res.text).toBe(fstab + "UUID=abcd  /data  ext4  defaults,noatime  0  2\n");
+    expect(res.added).toHaveLength(1);
+  });
+
+  it("skips mount points that are already listed", () => {
+    const once = appendFstabEntries(fstab, ["UUID=abcd  /data  ext4  defaults,noatime  0  2"]).text;
+    const twice = appendFstabEntries(once, ["UUID=ef01  /data  ext4  defaults,noatime  0  2"]);
+    expect(twice.text).toBe(once);
+    expect(twice.added).toEqual([]);
+  });
+
+  it("adds a newline to files without a trailing one", () => {
+    expect(appendFstabEntries("proc /proc proc defaults 0 0", ["UUID=a  none  swap  sw  0  0"]).text)
+      .toBe("proc /proc proc defaults 0 0\nUUID=a  none  swap  sw  0  0\n");
+  });
+});
+
+describe("addPartitionsAtEnd", () => {
+  const dos = parseSfdiskDump(`label: dos
+label-id: 0x12345678
+/dev/loop0p1 : start=8192, size=524288, type=c, bootable
+/dev/loop0p2 : start=532480, size=1048576, type=83
+`);
+
+  it("packs new partitions against the end of the disk", () => {
+    const lastUsable = 16777216 - 2048 - 1; // 8GiB disk, 1MiB tail buffer
+    const { table, added } = addPartitionsAtEnd(dos, [{ size: 2097152, type: "83" }, { size: 1048576, type: "82" }], lastUsable);
+    expect(added.map((p) => [p.number, p.start, p.size])).toEqual([[3, 13629440, 2097152], [4, 15726592, 1048576]]);
+    expect(table.partitions.map((p) => p.number)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("numbers GPT partitions after the highest one and names them", () => {
+    const gpt = { ...dos, label: "gpt" as const };
+    const { added } = addPartitionsAtEnd(gpt, [{ size: 2048, type: "0FC63DAF-8483-4772-8E79-3D69D8477DE4", name: "data" }], 16777215);
+    expect(added[0]).toMatchObject({ number: 3, name: "data" });
+  });
+
+  it("throws when the MBR has no free primary slot", () => {
+    const parts = [1, 2, 3].map(() => ({ size: 2048, type: "83" }));
+    expect(() => addPartitionsAtEnd(dos, parts, 16777215)).toThrow(/No free primary partition slot/);
+  });
+
+  it("throws when the new partitions do not fit", () => {
+    expect(() => addPartitionsAtEnd(dos, [{ size: 2048, type: "83" }], 1581055)).toThrow(/Not enough free space/);
+  });
+});
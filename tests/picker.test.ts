@@ -0,0 +1,88 @@
+import { describe, it, expect } from "bun:test";
+import type { DeviceInfo } from "../src/lib/devices";
+import { confirmOverwrite, formatDeviceInfo, pickDevice, type PickerIO } from "../src/lib/picker";
+
+const card: DeviceInfo = {
+  disk: "/dev/sdb",
+  sizeBytes: 31914983424,
+  vendor: "Generic",
+  model: "STORAGE DEVICE",
+  mediaName: "SD32G",
+  volumes: [
+    { id: "/dev/sdb1", name: "bootfs", fstype: "vfat" },
+    { id: "/dev/sdb2", name: "rootfs", fstype: "ext4" },
+  ],
+  piCard: true,
+  removable: true,
+  virtual: false,
+};
+
+const stick: DeviceInfo = { disk: "/dev/sdc", sizeBytes: 512e6, vendor: "SanDisk", volumes: [], piCard: false, removable: true, virtual: false };
+
+function scripted(answers: string[], interactive = true): PickerIO & { output: string; questions: number } {
+  const io = {
+    interactive,
+    output: "",
+    questions: 0,
+    write(s: string) { io.output += s; },
+    async ask(q: string) { io.output += q; io.questions++; return answers.shift() ?? ""; },
+  };
+  return io;
+}
+
+describe("formatDeviceInfo", () => {
+  it("shows identity, size, media name, Pi marker and volumes", () => {
+    expect(formatDeviceInfo(card)).toBe(
+      `/dev/sdb  31.9 GB  Generic STORAGE DEVICE  media "SD32G"  [Raspberry Pi card]\n     sdb1 bootfs (vfat), sdb2 rootfs (ext4)`,
+    );
+    expect(formatDeviceInfo(stick)).toBe("/dev/sdc  512 MB  SanDisk\n     no partitions");
+  });
+});
+
+describe("pickDevice", () => {
+  it("returns the numbered choice after re-asking on invalid input", async () => {
+    const io = scripted(["3", "x", "2"]);
+    expect(await pickDevice([card, stick], io)).toBe("/dev/sdc");
+    expect(io.questions).toBe(3);
+    expect(io.output).toContain("Not one of the listed devices: 3");
+    expect(io.output).toContain("1) /dev/sdb");
+  });
+
+  it("asks even when there is a single candidate", async () => {
+    const io = scripted(["1"]);
+    expect(await pickDevice([card], io)).toBe("/dev/sdb");
+    expect(io.questions).toBe(1);
+  });
+
+  it("aborts on q or end of input", async () => {
+    await expect(pickDevice([card, stick], scripted(["q"]))).rejects.toThrow("No device selected");
+    await expect(pickDevice([card, stick], scripted([]))).rejects.toThrow("No device selected");
+  });
+
+  it("refuses to choose without a terminal and lists the candidates", async () => {
+    const io = scripted([], false);
+    await expect(pickDevice([card, stick], io)).rejects.toThrow(/2 candidates\); pass --device[\s\S]*\/dev\/sdc/);
+    expect(io.questions).toBe(0);
+  });
+});
+
+describe("confirmOverwrite", () => {
+  it("shows the device and its volumes and accepts the typed disk name", async () => {
+    const io = scripted(["sdb"]);
+    await confirmOverwrite(card, io);
+    expect(io.output).toContain("About to overwrite:\n  /dev/sdb  31.9 GB");
+    expect(io.output).toContain("sdb1 bootfs (vfat), sdb2 rootfs (ext4)\nAll of these volumes will be destroyed.");
+    expect(io.output).toContain("Type sdb to continue: ");
+  });
+
+  it("rejects anything but the disk name", async () => {
+    await expect(confirmOverwrite(card, scripted(["yes"]))).rejects.toThrow("did not match sdb; nothing was written");
+    await expect(confirmOverwrite(card, scripted([]))).rejects.toThrow("did not match sdb");
+  });
+
+  it("cannot be answered without a terminal", async () => {
+    const io = scripted(["sdb"], false);
+    await expect(confirmOverwrite(stick, io)).rejects.toThrow("pass --yes together with --device /dev/sdc");
+    expect(io.questions).toBe(0);
+  });
+});
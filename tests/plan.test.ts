@@ -0,0 +1,207 @@
+import { describe, it, expect } from "bun:test";
+import { extractResizePlan, formatResizePlan, operationCommands, planResize, type ResizeLayout } from "../src/lib/plan";
+import { parsePartitionSpec } from "../src/lib/partspec";
+import { parseSfdiskDump } from "../src/lib/sfdisk";
+
+// Raspberry Pi OS layout: 256MB boot at 4MB, root right behind it, 4GB image
+const dos: ResizeLayout = {
+  table: parseSfdiskDump(`label: dos
+label-id: 0x5e3da3da
+/dev/loop0p1 : start=8192, size=524288, type=c, bootable
+/dev/loop0p2 : start=532480, size=3653632, type=83
+`),
+  bootNum: 1,
+  rootNum: 2,
+  bootLabel: "bootfs",
+};
+const DISK = 8388608; // 4GB
+
+describe("planResize", () => {
+  it("moves root behind a larger boot partition and grows it into the rest", () => {
+    const plan = planResize(dos, DISK, { bootSizeMB: 512 });
+    expect(plan.root).toEqual({ moves: true, shrinks: false, grows: true });
+    expect(plan.after.partitions.map((p) => [p.number, p.start, p.size])).toEqual([
+      [1, 8192, 1048576],
+      [2, 1058816, DISK - 2048 - 1058816],
+    ]);
+    expect(plan.operations.map((o) => o.op)).toEqual([
+      "backup-boot", "move-fs", "write-table", "write-table", "format-boot", "restore-boot", "write-table", "grow-fs",
+    ]);
+    expect(plan.operations.find((o) => o.op === "move-fs")).toMatchObject({ move: { from: 532480, to: 1058816, size: 3653632 } });
+  });
+
+  it("shrinks root when the image has no room for it behind the new boot", () => {
+    const plan = planResize(dos, 4194304, { bootSizeMB: 512 });
+    expect(plan.root.shrinks).toBe(true);
+    const shrink = plan.operations.find((o) => o.op === "shrink-fs");
+    expect(shrink).toEqual({ op: "shrink-fs", partition: 2, sizeMB: 1431 });
+  });
+
+  it("only grows root when boot already fits", () => {
+    const plan = planResize(dos, DISK, { bootSizeMB: 256, imageSizeBytes: 8 * 1024 ** 3 });
+    expect(plan.root).toEqual({ moves: false, shrinks: false, grows: true });
+    expect(plan.operations[0]).toEqual({ op: "resize-image", bytes: 8 * 1024 ** 3 });
+    expect(plan.imageBytes).toEqual({ before: DISK * 512, after: 8 * 1024 ** 3 });
+  });
+
+  it("refuses to shrink the image into the last partition", () => {
+    expect(() => planResize(dos, DISK, { bootSizeMB: 256, imageSizeBytes: 1024 ** 3 })).toThrow(/Cannot shrink image below/);
+  });
+
+  it("shrinks root to its minimum and truncates the image after it", () => {
+    const plan = planResize(dos, DISK, { bootSizeMB: 256, shrinkToMinSectors: 1000 * 2048 });
+    expect(plan.root.shrinks).toBe(true);
+    expect(plan.after.partitions[1].size).toBe(1000 * 2048);
+    expect(plan.imageBytes.after).toBe((532480 + 1000 * 2048) * 512);
+  });
+
+  it("adds partitions at the end, growing the image when its size is not fixed", () => {
+    const data = parsePartitionSpec("data:ext4:1GB");
+    const plan = planResize(dos, 4194304, { bootSizeMB: 256, addPartitions: [data] });
+    expect(plan.added).toEqual([{ number: 3, spec: data }]);
+    expect(plan.operations.map((o) => o.op)).toContain("format-partition");
+    expect(plan.imageBytes.after).toBe((4186112 + 2097152 + 2048) * 512);
+    expect(() => planResize(dos, 4194304, { bootSizeMB: 256, imageSizeBytes: 4194304 * 512, addPartitions: [data] })).toThrow(/increase IMAGE_SIZE/);
+  });
+});
+
+describe("operationCommands", () => {
+  it("renders the table write as an sfdisk script", () => {
+    const plan = planResize(dos, DISK, { bootSizeMB: 512 });
+    const write = plan.operations.find((o) => o.op === "write-table")!;
+    const cmds = operationCommands(write, "raspios.img");
+    expect(cmds).toHaveLength(1);
+    expect(cmds[0].split("\n")).toEqual([
+      "sfdisk --force --no-reread <loop> <<EOF",
+      "label: dos",
+      "label-id: 0x5e3da3da",
+      "unit: sectors",
+      "",
+      "<loop>p1 : start=8192, size=524288, type=c, bootable",
+      "<loop>p2 : start=1058816, size=3653632, type=83",
+      "EOF",
+    ]);
+  });
+
+  it("keeps the boot label when recreating FAT32", () => {
+    expect(operationCommands({ op: "format-boot", partition: 1, label: "bootfs" }, "x.img")).toEqual(["mkfs.vfat -F 32 -n bootfs <loop>p1"]);
+  });
+});
+
+describe("formatResizePlan", () => {
+  it("shows old and new geometry side by side", () => {
+    const text = formatResizePlan(planResize(dos, DISK, { bootSizeMB: 512 }), "raspios.img");
+    expect(text).toContain("Resize plan for raspios.img (dos)");
+    expect(text).toMatch(/^1\s+boot\s+8192\s+532479\s+256MB\s+->\s+8192\s+1056767\s+512MB\s+grown$/m);
+    expect(text).toMatch(/^2\s+root\s+532480 .* moved, grown$/m);
+    expect(text).toContain("Root: moves, grows");
+    expect(text).toContain("$ e2image -ra -p -o 272629760 -O 542113792 <loop>");
+  });
+});
+
+describe("extractResizePlan", () => {
+  it("finds the plan event among worker logs", () => {
+    const plan = planResize(dos, DISK, { bootSizeMB: 512 });
+    expect(extractResizePlan([{ type: "log", level: "info", message: "start" }, { type: "plan", plan }])).toEqual(plan);
+    expect(() => extractResizePlan([{ type: "log", level: "info", message: "done" }])).toThrow(/did not report/);
+  });
+});
+
+describe("planResize edge cases", () => {
+  // 64MB image: 32MB boot, 28MB root, 1MB tail
+  const tiny: ResizeLayout = {
+    table: parseSfdiskDump(`label: dos
+/dev/loop0p1 : start=8192, size=65536, type=c
+/dev/loop0p2 : start=73728, size=57344, type=83
+`),
+    bootNum: 1,
+    rootNum: 2,
+  };
+
+  it("leaves a root that already reaches the 1MB tail alone", () => {
+    const plan = planResize(tiny, 133120, { bootSizeMB: 32 });
+    expect(plan.operations.map((o) => o.op)).toEqual(["backup-boot", "write-table", "format-boot", "restore-boot"]);
+    expect(plan.root).toEqual({ moves: false, shrinks: false, grows: false });
+  });
+
+  it("still runs resize2fs with --unsafe-resize-ext4 when nothing changes", () => {
+    const plan = planResize(tiny, 133120, { bootSizeMB: 32, unsafeResizeExt4: true });
+    expect(plan.operations[plan.operations.length - 1]).toEqual({ op: "grow-fs", partition: 2 });
+  });
+
+  it("refuses to move root when a tiny image leaves no room behind boot", () => {
+    expect(() => planResize(tiny, 133120, { bootSizeMB: 40 })).toThrow(/Image too small to move root/);
+  });
+
+  it("refuses a boot partition larger than the image", () => {
+    expect(() => planResize(tiny, 133120, { bootSizeMB: 64 })).toThrow(/does not fit in the image/);
+    expect(() => planResize(dos, DISK, { bootSizeMB: 8192 })).toThrow(/does not fit in the image/);
+  });
+
+  it("keeps an unaligned boot start and aligns the moved root to 1MiB", () => {
+    const legacy: ResizeLayout = {
+      table: parseSfdiskDump(`label: dos
+/dev/loop0p1 : start=63, size=131009, type=c
+/dev/loop0p2 : start=131135, size=1000000, type=83
+`),
+      bootNum: 1,
+      rootNum: 2,
+    };
+    const plan = planResize(legacy, 4194304, { bootSizeMB: 128 });
+    const [boot, root] = plan.after.partitions;
+    expect([boot.start, boot.size]).toEqual([63, 262144]);
+    expect(root.start % 2048).toBe(0);
+    expect(root.start).toBe(266240);
+    expect(root.start + root.size).toBe(4194304 - 2048);
+  });
+
+  // boot, root, then an extended container holding swap and data
+  const multi: ResizeLayout = {
+    table: parseSfdiskDump(`label: dos
+/dev/loop2p1 : start=8192, size=524288, type=c, bootable
+/dev/loop2p2 : start=532480, size=4194304, type=83
+/dev/loop2p3 : start=4726784, size=3145728, type=5
+/dev/loop2p5 : start=4728832, size=1048576, type=82
+/dev/loop2p6 : start=5779456, size=2093056, type=83
+`),
+    bootNum: 1,
+    rootNum: 2,
+  };
+
+  it("rejects a boot size that swallows a partition other than root", () => {
+    expect(() => planResize(multi, 16777216, { bootSizeMB: 4096 })).toThrow(/Partition 3 lies within the enlarged boot partition/);
+  });
+
+  it("pushes following partitions back when the image has room", () => {
+    const plan = planResize(multi, 16777216, { bootSizeMB: 512 });
+    expect(plan.operations.filter((o) => o.op === "move-partition")).toEqual([
+      { op: "move-partition", move: { number: 3, from: 4726784, to: 5253120, size: 3145728 } },
+    ]);
+    expect(plan.after.partitions.map((p) => [p.number, p.start])).toEqual([[1, 8192], [2, 1058816], [3, 5253120], [5, 5255168], [6, 6305792]]);
+    expect(plan.root).toEqual({ moves: true, shrinks: false, grows: false });
+  });
+
+  it("shrinks root in front of following partitions when the image is full", () => {
+    const plan = planResize(multi, 8000000, { bootSizeMB: 512 });
+    expect(plan.operations.some((o) => o.op === "move-partition")).toBe(false);
+    expect(plan.operations.find((o) => o.op === "shrink-fs")).toEqual({ op: "shrink-fs", partition: 2, sizeMB: 1791 });
+    expect(plan.after.partitions.find((p) => p.number === 2)).toMatchObject({ start: 1058816, size: 3667968 });
+  });
+
+  it("keeps room for the backup GPT when truncating after shrink-to-min", () => {
+    const gpt: ResizeLayout = {
+      table: parseSfdiskDump(`label: gpt
+/dev/loop3p1 : start=2048, size=532480, type=C12A7328-F81F-11D2-BA4B-00A0C93EC93B
+/dev/loop3p2 : start=534528, size=3659743, type=0FC63DAF-8483-4772-8E79-3D69D8477DE4
+`),
+      bootNum: 1,
+      rootNum: 2,
+    };
+    const plan = planResize(gpt, 4194304, { bootSizeMB: 260, shrinkToMinSectors: 1000 * 2048 });
+    const tail = plan.operations.slice(-2);
+    expect(tail).toEqual([
+      { op: "resize-image", bytes: (534528 + 1000 * 2048 + 33) * 512 },
+      expect.objectContaining({ op: "write-table", reason: "relocate backup GPT" }),
+    ]);
+  });
+});
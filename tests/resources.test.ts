@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RecordingExecutor } from "../src/lib/executor";
+import { attachLoop, mountAt, ResourceRegistry } from "../src/lib/resources";
+
+describe("ResourceRegistry", () => {
+  it("releases newest first", async () => {
+    const order: string[] = [];
+    const reg = new ResourceRegistry();
+    for (const name of ["loop", "mapping", "mount"]) reg.add(name, async () => { order.push(name); });
+    expect(await reg.unwind()).toEqual([]);
+    expect(order).toEqual(["mount", "mapping", "loop"]);
+    expect(reg.held()).toEqual([]);
+  });
+
+  it("keeps going after a failed release and reports it", async () => {
+    const order: string[] = [];
+    const warnings: string[] = [];
+    const reg = new ResourceRegistry((m) => warnings.push(m));
+    reg.add("loop", async () => { order.push("loop"); });
+    reg.add("mount /mnt/root", async () => { throw new Error("target is busy"); });
+    expect(await reg.unwind()).toEqual(["mount /mnt/root"]);
+    expect(order).toEqual(["loop"]);
+    expect(warnings).toEqual(["Failed to release mount /mnt/root: target is busy"]);
+  });
+
+  it("drops a resource released early", async () => {
+    let count = 0;
+    const reg = new ResourceRegistry();
+    const id = reg.add("mount", async () => { count++; });
+    await reg.release(id);
+    await reg.release(id);
+    await reg.unwind();
+    expect(count).toBe(1);
+  });
+
+  it("unwinds once when called concurrently", async () => {
+    let count = 0;
+    const reg = new ResourceRegistry();
+    reg.add("loop", async () => { count++; });
+    await Promise.all([reg.unwind(), reg.unwind()]);
+    expect(count).toBe(1);
+  });
+});
+
+describe("attachLoop", () => {
+  it("removes partition mappings before detaching the loop", async () => {
+    const exe = new RecordingExecutor((cmd) => ({ code: 0, stdout: cmd[0] === "losetup" && cmd[1] === "-f" ? "/dev/loop7\n" : "", stderr: "" }));
+    const reg = new ResourceRegistry();
+    expect(await attachLoop(exe, reg, "/work/a.img", true)).toBe("/dev/loop7");
+    expect(exe.calls[0].cmd).toEqual(["losetup", "-f", "--show", "-r", "-P", "/work/a.img"]);
+    await reg.unwind();
+    expect(exe.calls.slice(1).map((c) => c.cmd)).toEqual([["kpartx", "-d", "/dev/loop7"], ["losetup", "-d", "/dev/loop7"]]);
+  });
+});
+
+describe("mountAt", () => {
+  it("detaches lazily when the mount is busy", async () => {
+    const dir = join(mkdtempSync(join(tmpdir(), "rpi-tool-")), "mnt");
+    const exe = new RecordingExecutor((cmd) => ({ code: cmd[0] === "umount" && cmd.length === 2 ? 32 : 0, stdout: "", stderr: "" }));
+    const reg = new ResourceRegistry();
+    await mountAt(exe, reg, "/dev/loop7p2", dir, "ro,noload");
+    expect(reg.held()).toEqual([`mount ${dir}`]);
+    expect(await reg.unwind()).toEqual([]);
+    expect(exe.calls.map((c) => c.cmd)).toEqual([
+      ["mount", "-o", "ro,noload", "/dev/loop7p2", dir],
+      ["umount", dir],
+      ["umount", "-l", dir],
+    ]);
+  });
+});
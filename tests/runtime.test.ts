@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { RecordingExecutor } from "../src/lib/executor";
+import { runWorker, ensureImage } from "../src/lib/docker";
+import { JOB_PROTOCOL } from "../src/lib/job";
+import { createRuntime, detectRuntime } from "../src/lib/runtime";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("createRuntime", () => {
+  it("gives each runtime its own device flags", () => {
+    expect(createRuntime("docker").privilegedFlags()).toEqual(["--privileged"]);
+    expect(createRuntime("podman").privilegedFlags()).toEqual(["--privileged", "--security-opt", "label=disable", "-v", "/dev:/dev"]);
+    expect(createRuntime("nerdctl").privilegedFlags()).toEqual(["--privileged", "-v", "/dev:/dev"]);
+    expect(() => createRuntime("lxc")).toThrow("Unknown container runtime: lxc (expected docker, podman, nerdctl)");
+  });
+
+  it("runs the worker and builds images through the chosen binary", async () => {
+    const runtime = createRuntime("podman");
+    // No image yet, so ensureImage builds one
+    const rec = new RecordingExecutor((cmd) => ({ code: cmd[2] === "inspect" ? 1 : 0, stdout: "", stderr: "" }));
+    const job = { protocol: JOB_PROTOCOL, mode: "inspect" as const, image: "a.img", dryRun: false, verbose: false };
+    await runWorker(rec, { runtime, image: "img:latest", workdir: mkdtempSync(join(tmpdir(), "rpi-tool-")), job });
+    expect(rec.calls[0].cmd.slice(0, 8)).toEqual(["podman", "run", "--rm", "--privileged", "--security-opt", "label=disable", "-v", "/dev:/dev"]);
+    rec.calls.length = 0;
+    await ensureImage(rec, "img:latest", { runtime });
+    expect(rec.calls[0].cmd).toEqual(["podman", "image", "inspect", "--format", '{{.Id}} {{index .Labels "rpi-tool.worker-hash"}}', "img:latest"]);
+    expect(rec.calls.every((c) => c.cmd[0] === "podman" || c.cmd[0] === "rm")).toBe(true);
+  });
+});
+
+describe("detectRuntime", () => {
+  it("takes the first runtime that answers", async () => {
+    const rec = new RecordingExecutor((cmd) => {
+      if (cmd[0] === "docker") throw new Error("spawn docker ENOENT");
+      return { code: 0, stdout: cmd[1] === "info" ? "false\n" : "", stderr: "" };
+    });
+    expect((await detectRuntime(rec)).name).toBe("podman");
+  });
+
+  it("uses the requested runtime without probing the others", async () => {
+    const rec = new RecordingExecutor({ code: 0, stdout: "", stderr: "" });
+    expect((await detectRuntime(rec, "nerdctl")).name).toBe("nerdctl");
+    expect(rec.calls).toEqual([]);
+  });
+
+  it("refuses rootless podman", async () => {
+    const rec = new RecordingExecutor({ code: 0, stdout: "true\n", stderr: "" });
+    await expect(detectRuntime(rec, "podman")).rejects.toThrow(/rootless/);
+  });
+
+  it("reports when nothing is installed", async () => {
+    const rec = new RecordingExecutor({ code: 1, stdout: "", stderr: "Cannot connect to the Docker daemon" });
+    await expect(detectRuntime(rec)).rejects.toThrow(/No container runtime found/);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "bun:test";
+import { parseSfdiskDump, renderSfdiskTable, partitionEnd, partitionNumber, assertIdentifiersPreserved, findRoles, growLimit, withGeometry, shiftFollowing, compactFollowing, isExtended, isLogical } from "../src/lib/sfdisk";
+
+const dosDump = `label: dos
+label-id: 0x5e3da3da
+device: /dev/loop0
+unit: sectors
+sector-size: 512
+
+/dev/loop0p1 : start=        8192, size=      524288, type=c, bootable
+/dev/loop0p2 : start=      532480, size=     3653632, type=83
+`;
+
+const gptDump = `label: gpt
+label-id: 3A6F0B8E-6B4C-4F3E-9D1C-2B7E5A4C9F10
+device: /dev/loop3
+unit: sectors
+first-lba: 34
+last-lba: 4194270
+sector-size: 512
+
+/dev/loop3p2 : start=      534528, size=     3659743, type=0FC63DAF-8483-4772-8E79-3D69D8477DE4, uuid=6C1D2E3F-4A5B-4C6D-8E7F-901A2B3C4D5E, name="rootfs"
+/dev/loop3p1 : start=        2048, size=      532480, type=C12A7328-F81F-11D2-BA4B-00A0C93EC93B, uuid=0B1C2D3E-4F50-4617-8293-A4B5C6D7E8F9, name="boot, firmware", attrs="LegacyBIOSBootable"
+`;
+
+// boot, root, then an extended container holding swap and data
+const multiDump = `label: dos
+label-id: 0x0badcafe
+device: /dev/loop2
+unit: sectors
+
+/dev/loop2p1 : start=        8192, size=      524288, type=c, bootable
+/dev/loop2p2 : start=      532480, size=     4194304, type=83
+/dev/loop2p3 : start=     4726784, size=     3145728, type=5
+/dev/loop2p5 : start=     4728832, size=     1048576, type=82
+/dev/loop2p6 : start=     5779456, size=     2093056, type=83
+`;
+
+describe("parseSfdiskDump", () => {
+  it("parses dos header and partitions", () => {
+    const t = parseSfdiskDump(dosDump);
+    expect(t.label).toBe("dos");
+    expect(t.labelId).toBe("0x5e3da3da");
+    expect(t.sectorSize).toBe(512);
+    expect(t.partitions).toHaveLength(2);
+    expect(t.partitions[0]).toMatchObject({ number: 1, start: 8192, size: 524288, type: "c", bootable: true });
+    expect(t.partitions[1]).toMatchObject({ number: 2, start: 532480, size: 3653632, type: "83" });
+    expect(partitionEnd(t.partitions[0])).toBe(8192 + 524288 - 1);
+  });
+
+  it("parses gpt header, GUIDs, quoted names and attributes", () => {
+    const t = parseSfdiskDump(gptDump);
+    expect(t.label).toBe("gpt");
+    expect(t.labelId).toBe("3A6F0B8E-6B4C-4F3E-9D1C-2B7E5A4C9F10");
+    expect(t.firstLba).toBe(34);
+    expect(t.lastLba).toBe(4194270);
+    // sorted by partition number
+    expect(t.partitions.map((p) => p.number)).toEqual([1, 2]);
+    expect(t.partitions[0].name).toBe("boot, firmware");
+    expect(t.partitions[0].attrs).toBe("LegacyBIOSBootable");
+    expect(t.partitions[1].uuid).toBe("6C1D2E3F-4A5B-4C6D-8E7F-901A2B3C4D5E");
+  });
+
+  it("rejects unsupported labels", () => {
+    expect(() => parseSfdiskDump("label: sun\n")).toThrow();
+  });
+});
+
+describe("partitionNumber", () => {
+  it("extracts the trailing number", () => {
+    expect(partitionNumber("/dev/loop0p2")).toBe(2);
+    expect(partitionNumber("/dev/mmcblk0p1")).toBe(1);
+    expect(partitionNumber("/dev/sda3")).toBe(3);
+    expect(() => partitionNumber("/dev/loop")).toThrow();
+  });
+});
+
+describe("renderSfdiskTable", () => {
+  it("renders dos tables with bootable flag", () => {
+    const out = renderSfdiskTable(parseSfdiskDump(dosDump), "/dev/loop1");
+    expect(out).toContain("label: dos\n");
+    expect(out).toContain("label-id: 0x5e3da3da\n");
+    expect(out).toContain("/dev/loop1p1 : start=8192, size=524288, type=c, bootable\n");
+    expect(out).toContain("/dev/loop1p2 : start=532480, size=3653632, type=83\n");
+  });
+
+  it("renders gpt tables keeping GUIDs and omitting last-lba", () => {
+    const out = renderSfdiskTable(parseSfdiskDump(gptDump), "/dev/loop3");
+    expect(out).toContain("label: gpt\n");
+    expect(out).toContain("label-id: 3A6F0B8E-6B4C-4F3E-9D1C-2B7E5A4C9F10\n");
+    expect(out).toContain("first-lba: 34\n");
+    expect(out).not.toContain("last-lba");
+    expect(out).toContain(`name="boot, firmware", attrs="LegacyBIOSBootable"`);
+    expect(out).toContain("uuid=6C1D2E3F-4A5B-4C6D-8E7F-901A2B3C4D5E");
+  });
+
+  it("round-trips through the parser", () => {
+    const t = parseSfdiskDump(gptDump);
+    const again = parseSfdiskDump(renderSfdiskTable(t, "/dev/loop3"));
+    expect(again.partitions).toEqual(t.partitions);
+  });
+});
+
+describe("assertIdentifiersPreserved", () => {
+  it("accepts identical identifiers regardless of case", () => {
+    const before = parseSfdiskDump(gptDump);
+    const after = parseSfdiskDump(gptDump.toLowerCase());
+    expect(() => assertIdentifiersPreserved(before, after)).not.toThrow();
+  });
+
+  it("throws when the MBR disk identifier changes", () => {
+    const before = parseSfdiskDump(dosDump);
+    const after = parseSfdiskDump(dosDump.replace("0x5e3da3da", "0x0badf00d"));
+    expect(() => assertIdentifiersPreserved(before, after)).toThrow(/Disk identifier changed/);
+  });
+
+  it("throws when a GPT partition GUID changes", () => {
+    const before = parseSfdiskDump(gptDump);
+    const after = parseSfdiskDump(gptDump.replace("6C1D2E3F", "DEADBEEF"));
+    expect(() => assertIdentifiersPreserved(before, after)).toThrow(/Partition 2 GUID changed/);
+  });
+});
+
+describe("findRoles", () => {
+  it("identifies boot and root by filesystem, not index", () => {
+    const t = parseSfdiskDump(gptDump.replace("loop3p2", "loop3p4"));
+    const roles = findRoles(t, { 1: "vfat", 4: "ext4" });
+    expect(roles.boot.number).toBe(1);
+    expect(roles.root.number).toBe(4);
+  });
+
+  it("picks the first ext4 partition after boot", () => {
+    const t = parseSfdiskDump(multiDump);
+    const roles = findRoles(t, { 1: "vfat", 2: "ext4", 5: "swap", 6: "ext4" });
+    expect(roles.root.number).toBe(2);
+  });
+
+  it("rejects tables without a FAT or ext4 partition", () => {
+    const t = parseSfdiskDump(dosDump);
+    expect(() => findRoles(t, { 1: "ntfs", 2: "ext4" })).toThrow(/No FAT boot partition/);
+    expect(() => findRoles(t, { 1: "vfat", 2: "btrfs" })).toThrow(/No ext4 root partition/);
+  });
+
+  it("rejects a logical root partition", () => {
+    const t = parseSfdiskDump(multiDump);
+    expect(() => findRoles(t, { 1: "vfat", 2: "swap", 5: "swap", 6: "ext4" })).toThrow(/logical partition/);
+  });
+});
+
+describe("extended and logical partitions", () => {
+  it("classifies containers and logicals", () => {
+    const t = parseSfdiskDump(multiDump);
+    const by = (n: number) => t.partitions.find((p) => p.number === n)!;
+    expect(isExtended(t, by(3))).toBe(true);
+    expect(isExtended(t, by(2))).toBe(false);
+    expect(isLogical(t, by(5))).toBe(true);
+    expect(isLogical(t, by(3))).toBe(false);
+  });
+
+  it("keeps every partition when rendering", () => {
+    const out = renderSfdiskTable(parseSfdiskDump(multiDump), "/dev/loop2");
+    expect(out).toContain("/dev/loop2p3 : start=4726784, size=3145728, type=5\n");
+    expect(out).toContain("/dev/loop2p6 : start=5779456, size=2093056, type=83\n");
+  });
+});
+
+describe("withGeometry", () => {
+  it("changes one partition and keeps the rest", () => {
+    const t = withGeometry(parseSfdiskDump(multiDump), 2, 1050624, 1000000);
+    expect(t.partitions).toHaveLength(5);
+    expect(t.partitions[1]).toMatchObject({ number: 2, start: 1050624, size: 1000000, type: "83" });
+    expect(t.partitions[2]).toMatchObject({ number: 3, start: 4726784 });
+  });
+
+  it("throws for unknown partitions", () => {
+    expect(() => withGeometry(parseSfdiskDump(dosDump), 3, 0, 1)).toThrow(/Partition 3 not found/);
+  });
+});
+
+describe("growLimit", () => {
+  it("is bounded by the next partition", () => {
+    const t = parseSfdiskDump(multiDump);
+    expect(growLimit(t, t.partitions[1], 99999999)).toBe(4726784 - 1);
+  });
+
+  it("is bounded by the disk end for the last partition", () => {
+    const t = parseSfdiskDump(dosDump);
+    expect(growLimit(t, t.partitions[1], 8388607)).toBe(8388607);
+  });
+});
+
+describe("shiftFollowing", () => {
+  it("moves the extended container and its logicals together", () => {
+    const t = parseSfdiskDump(multiDump);
+    const root = t.partitions[1];
+    const { table, moves } = shiftFollowing(t, root, 4726784 + 1000);
+    expect(moves).toEqual([{ number: 3, from: 4726784, to: 4726784 + 2048, size: 3145728 }]);
+    const starts = Object.fromEntries(table.partitions.map((p) => [p.number, p.start]));
+    expect(starts).toEqual({ 1: 8192, 2: 532480, 3: 4728832, 5: 4730880, 6: 5781504 });
+  });
+
+  it("returns moves last partition first", () => {
+    const t = parseSfdiskDump(`label: gpt
+/dev/loop0p1 : start=2048, size=2048, type=C12A7328-F81F-11D2-BA4B-00A0C93EC93B
+/dev/loop0p2 : start=4096, size=4096, type=0FC63DAF-8483-4772-8E79-3D69D8477DE4
+/dev/loop0p3 : start=8192, size=2048, type=0657FD6D-A4AB-43C4-84E5-0933C84B4F4F
+/dev/loop0p4 : start=12288, size=2048, type=0FC63DAF-8483-4772-8E79-3D69D8477DE4
+`);
+    const { moves } = shiftFollowing(t, t.partitions[1], 8192 + 4095);
+    expect(moves.map((m) => [m.number, m.to])).toEqual([[4, 16384], [3, 12288]]);
+  });
+
+  it("does nothing when nothing is in the way", () => {
+    const t = parseSfdiskDump(multiDump);
+    expect(shiftFollowing(t, t.partitions[1], 4726783).moves).toEqual([]);
+  });
+});
+
+describe("compactFollowing", () => {
+  it("pulls later partitions up behind a shrunk partition", () => {
+    const t = withGeometry(parseSfdiskDump(multiDump), 2, 532480, 1048576);
+    const { table, moves } = compactFollowing(t, rootOf(t));
+    expect(moves).toEqual([{ number: 3, from: 4726784, to: 1581056, size: 3145728 }]);
+    expect(table.partitions.find((p) => p.number === 6)!.start).toBe(5779456 - (4726784 - 1581056));
+  });
+
+  it("leaves already packed partitions alone", () => {
+    const t = parseSfdiskDump(multiDump);
+    expect(compactFollowing(t, rootOf(t)).moves).toEqual([]);
+  });
+});
+
+function rootOf(t: ReturnType<typeof parseSfdiskDump>) {
+  return t.partitions.find((p) => p.number === 2)!;
+}
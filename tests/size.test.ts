@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { parseSize, recommendedImageSize } from "../src/lib/size";
+
+describe("parseSize", () => {
+  it("uses powers of 1024 with or without B or iB", () => {
+    expect(parseSize("256GB")).toBe(256 * 1024 ** 3);
+    expect(parseSize("1t")).toBe(1024 ** 4);
+    expect(parseSize("512M")).toBe(512 * 1024 ** 2);
+    expect(parseSize("32GiB")).toBe(32 * 1024 ** 3);
+    expect(parseSize("4096")).toBe(4096);
+  });
+
+  it("rounds fractions down to whole sectors", () => {
+    expect(parseSize("1.5MiB")).toBe(1.5 * 1024 ** 2);
+    expect(parseSize("29.7GB") % 512).toBe(0);
+    expect(parseSize("1000")).toBe(512);
+  });
+
+  it("rejects anything else", () => {
+    for (const bad of ["lots", "", "12XB", "5iB", "-1G"]) {
+      expect(() => parseSize(bad)).toThrow(`Invalid size: ${bad}`);
+    }
+  });
+});
+
+describe("recommendedImageSize", () => {
+  it("fits the card it was computed for", () => {
+    // Cards are sold in decimal gigabytes: a 32 GB and a 64 GB card
+    for (const card of [31914983424, 64021856256]) {
+      const bytes = parseSize(recommendedImageSize(card));
+      expect(bytes).toBeLessThanOrEqual(card * 0.98);
+      expect(bytes).toBeGreaterThan(card * 0.97);
+    }
+    expect(recommendedImageSize(31914983424)).toBe("29827MB");
+  });
+});